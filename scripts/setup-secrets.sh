@@ -72,6 +72,17 @@ echo "🔑 Generating JWT secret..."
 JWT_SECRET=$(generate_secret)
 set_secret "JWT_SECRET" "$JWT_SECRET"
 
+# Generate and set admin API key
+echo "🔑 Generating admin API key..."
+ADMIN_API_KEY=$(generate_secret)
+set_secret "ADMIN_API_KEY" "$ADMIN_API_KEY"
+
+# Keep the admin key out of the terminal and CI logs: only the owner can read the file
+ADMIN_KEY_FILE=".admin-api-key.$ENVIRONMENT"
+(umask 077 && printf '%s\n' "$ADMIN_API_KEY" > "$ADMIN_KEY_FILE")
+chmod 600 "$ADMIN_KEY_FILE"
+unset ADMIN_API_KEY
+
 echo "✅ All secrets have been configured successfully!"
 echo ""
 echo "📝 Secrets summary:"
@@ -81,6 +92,7 @@ case $ai_choice in
 esac
 echo "   - MASTER_KEY_SEED: ✅ Generated and set"
 echo "   - JWT_SECRET: ✅ Generated and set"
+echo "   - ADMIN_API_KEY: ✅ Generated and set (value saved to $ADMIN_KEY_FILE, mode 600)"
 echo ""
 echo "🚀 You can now deploy your API with:"
 echo "   ./scripts/deploy.sh $ENVIRONMENT"
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { Env, RegistrationAttestation, AuthenticationError, ValidationError } from './types';
+import { timingSafeEqual, base64UrlEncode } from './security';
+
+export const DEFAULT_CHALLENGE_DIFFICULTY = 20; // leading zero bits, ~1M hashes on average
+export const MAX_CHALLENGE_DIFFICULTY = 32;
+export const CHALLENGE_TTL_SECONDS = 300;
+
+export interface IssuedChallenge {
+  challenge: string;
+  difficulty: number;
+  expires_at: string;
+}
+
+// A challenge whose server signature and expiry have been checked
+export interface VerifiedChallenge {
+  nonce: string;
+  difficulty: number;
+  expiresAt: number; // seconds since epoch
+}
+
+export interface AttestationContext {
+  deviceId: string;
+  platform: 'ios' | 'android';
+  challenge: VerifiedChallenge;
+}
+
+/**
+ * Verifies one attestation type. Implementations throw AuthenticationError
+ * (code ATTESTATION_FAILED) when the attestation does not hold.
+ */
+export interface AttestationVerifier {
+  readonly type: string;
+  verify(attestation: RegistrationAttestation, context: AttestationContext): Promise<void>;
+}
+
+/**
+ * Proof of work: SHA-256(challenge + ":" + device_id + ":" + solution) must
+ * start with `difficulty` zero bits
+ */
+export class ProofOfWorkVerifier implements AttestationVerifier {
+  readonly type = 'proof_of_work';
+
+  async verify(attestation: RegistrationAttestation, context: AttestationContext): Promise<void> {
+    if (!attestation.solution) {
+      throw new AuthenticationError('Proof-of-work solution missing', 'ATTESTATION_FAILED');
+    }
+
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(`${attestation.challenge}:${context.deviceId}:${attestation.solution}`)
+    );
+    if (leadingZeroBits(new Uint8Array(digest)) < context.challenge.difficulty) {
+      throw new AuthenticationError('Proof-of-work solution does not meet the difficulty', 'ATTESTATION_FAILED');
+    }
+  }
+}
+
+/**
+ * Registration challenges and attestation checks.
+ *
+ * Challenges are stateless tokens (`nonce.expires.difficulty.mac`) signed
+ * with JWT_SECRET; each is accepted for one registration only. Platform
+ * attestation (App Attest, Play Integrity) plugs in as further verifiers
+ * and receives the verified challenge to check as its nonce.
+ */
+export class AttestationService {
+  private verifiers: Map<string, AttestationVerifier>;
+
+  constructor(
+    private env: Env,
+    verifiers: AttestationVerifier[] = [new ProofOfWorkVerifier()]
+  ) {
+    this.verifiers = new Map(verifiers.map(verifier => [verifier.type, verifier]));
+  }
+
+  // Required unless explicitly disabled with REGISTRATION_ATTESTATION_REQUIRED = "false"
+  get required(): boolean {
+    return this.env.REGISTRATION_ATTESTATION_REQUIRED !== 'false';
+  }
+
+  /**
+   * Issue a fresh challenge at the configured difficulty
+   */
+  async issueChallenge(): Promise<IssuedChallenge> {
+    const difficulty = Math.min(
+      MAX_CHALLENGE_DIFFICULTY,
+      Math.max(0, parseInt(this.env.REGISTRATION_CHALLENGE_DIFFICULTY || String(DEFAULT_CHALLENGE_DIFFICULTY)))
+    );
+    const nonce = crypto.randomUUID().replace(/-/g, '');
+    const expiresAt = Math.floor(Date.now() / 1000) + CHALLENGE_TTL_SECONDS;
+    const unsigned = `${nonce}.${expiresAt}.${difficulty}`;
+
+    return {
+      challenge: `${unsigned}.${await this.mac(unsigned)}`,
+      difficulty,
+      expires_at: new Date(expiresAt * 1000).toISOString()
+    };
+  }
+
+  /**
+   * Check a registration's attestation, consuming its challenge. Passes when
+   * none is given only if REGISTRATION_ATTESTATION_REQUIRED is "false".
+   */
+  async verifyRegistration(
+    attestation: RegistrationAttestation | undefined,
+    deviceId: string,
+    platform: 'ios' | 'android'
+  ): Promise<void> {
+    if (!attestation) {
+      if (this.required) {
+        throw new AuthenticationError(
+          'Registration requires an attestation; request a challenge from /api/v1/device/challenge',
+          'ATTESTATION_REQUIRED'
+        );
+      }
+      return;
+    }
+
+    const verifier = this.verifiers.get(attestation.type);
+    if (!verifier) {
+      throw new ValidationError(`Unsupported attestation type: ${attestation.type}`);
+    }
+
+    const challenge = await this.verifyChallenge(attestation.challenge);
+    await verifier.verify(attestation, { deviceId, platform, challenge });
+    await this.consumeChallenge(challenge);
+  }
+
+  private async verifyChallenge(challenge: string): Promise<VerifiedChallenge> {
+    const parts = challenge.split('.');
+    const [nonce, expires, difficulty, mac] = parts;
+    if (parts.length !== 4 || !nonce || !expires || !difficulty || !mac) {
+      throw new AuthenticationError('Malformed challenge', 'CHALLENGE_INVALID');
+    }
+
+    const expected = await this.mac(`${nonce}.${expires}.${difficulty}`);
+    if (!timingSafeEqual(mac, expected)) {
+      throw new AuthenticationError('Invalid challenge signature', 'CHALLENGE_INVALID');
+    }
+
+    const expiresAt = parseInt(expires);
+    if (expiresAt * 1000 <= Date.now()) {
+      throw new AuthenticationError('Challenge expired', 'CHALLENGE_EXPIRED');
+    }
+
+    if (await this.env.CACHE.get(`challenge:${nonce}`) !== null) {
+      throw new AuthenticationError('Challenge has already been used', 'CHALLENGE_REUSED');
+    }
+
+    return { nonce, difficulty: parseInt(difficulty), expiresAt };
+  }
+
+  private async consumeChallenge(challenge: VerifiedChallenge): Promise<void> {
+    const remainingSeconds = challenge.expiresAt - Math.floor(Date.now() / 1000);
+    await this.env.CACHE.put(`challenge:${challenge.nonce}`, '1', {
+      expirationTtl: Math.max(60, remainingSeconds) // KV minimum TTL is 60s
+    });
+  }
+
+  private async mac(message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.env.JWT_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`registration-challenge:${message}`));
+    return base64UrlEncode(new Uint8Array(signature));
+  }
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
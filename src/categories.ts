@@ -0,0 +1,207 @@
+import { Env, CategoryDefinition, ValidationError } from './types';
+
+export const CUSTOM_CATEGORY_PREFIX = 'custom.';
+export const MAX_CUSTOM_CATEGORIES = 50;
+export const FALLBACK_CATEGORY_ID = 'other';
+
+const TAXONOMY_KEY = 'taxonomy:categories';
+
+// Built-in taxonomy; IDs are stable, children are `parent.child`
+export const DEFAULT_TAXONOMY: CategoryDefinition[] = [
+  { id: 'food_drink', parent: null, names: { en: 'Food & Drink', zh: '餐饮' } },
+  { id: 'food_drink.coffee', parent: 'food_drink', names: { en: 'Coffee & Tea', zh: '咖啡茶饮' } },
+  { id: 'food_drink.restaurants', parent: 'food_drink', names: { en: 'Restaurants', zh: '餐厅' } },
+  { id: 'food_drink.fast_food', parent: 'food_drink', names: { en: 'Fast Food', zh: '快餐' } },
+  { id: 'food_drink.groceries', parent: 'food_drink', names: { en: 'Groceries', zh: '买菜' } },
+  { id: 'transport', parent: null, names: { en: 'Transport', zh: '交通' } },
+  { id: 'transport.public', parent: 'transport', names: { en: 'Public Transport', zh: '公共交通' } },
+  { id: 'transport.taxi', parent: 'transport', names: { en: 'Taxi & Ride Hailing', zh: '打车' } },
+  { id: 'transport.fuel', parent: 'transport', names: { en: 'Fuel', zh: '加油' } },
+  { id: 'transport.parking', parent: 'transport', names: { en: 'Parking', zh: '停车' } },
+  { id: 'travel', parent: null, names: { en: 'Travel', zh: '旅行' } },
+  { id: 'travel.flights', parent: 'travel', names: { en: 'Flights', zh: '机票' } },
+  { id: 'travel.accommodation', parent: 'travel', names: { en: 'Accommodation', zh: '住宿' } },
+  { id: 'shopping', parent: null, names: { en: 'Shopping', zh: '购物' } },
+  { id: 'shopping.clothing', parent: 'shopping', names: { en: 'Clothing', zh: '服饰' } },
+  { id: 'shopping.electronics', parent: 'shopping', names: { en: 'Electronics', zh: '数码' } },
+  { id: 'shopping.household', parent: 'shopping', names: { en: 'Household', zh: '家居日用' } },
+  { id: 'entertainment', parent: null, names: { en: 'Entertainment', zh: '娱乐' } },
+  { id: 'bills', parent: null, names: { en: 'Bills & Utilities', zh: '账单缴费' } },
+  { id: 'bills.phone_internet', parent: 'bills', names: { en: 'Phone & Internet', zh: '话费网费' } },
+  { id: 'bills.subscriptions', parent: 'bills', names: { en: 'Subscriptions', zh: '订阅' } },
+  { id: 'health', parent: null, names: { en: 'Health', zh: '医疗健康' } },
+  { id: 'personal_care', parent: null, names: { en: 'Personal Care', zh: '个人护理' } },
+  { id: 'education', parent: null, names: { en: 'Education', zh: '教育' } },
+  { id: 'transfers', parent: null, names: { en: 'Transfers', zh: '转账' } },
+  { id: FALLBACK_CATEGORY_ID, parent: null, names: { en: 'Other', zh: '其他' } }
+];
+
+export interface SnappedCategory {
+  id: string;
+  name: string; // localized
+  path: string[]; // ancestor IDs, root first, ending with `id`
+}
+
+/**
+ * Category taxonomy (default or admin-configured) plus per-device custom
+ * categories, both kept in the CACHE KV namespace
+ */
+export class CategoryService {
+  constructor(private env: Env) {}
+
+  async getTaxonomy(): Promise<CategoryDefinition[]> {
+    const data = await this.env.CACHE.get(TAXONOMY_KEY);
+    return data ? JSON.parse(data) : DEFAULT_TAXONOMY;
+  }
+
+  /**
+   * Replace the taxonomy (admin). It must keep the fallback category.
+   */
+  async setTaxonomy(categories: CategoryDefinition[]): Promise<void> {
+    validateCategories(categories, []);
+    if (categories.some(category => category.id.startsWith(CUSTOM_CATEGORY_PREFIX))) {
+      throw new ValidationError(`Taxonomy IDs must not start with "${CUSTOM_CATEGORY_PREFIX}"`);
+    }
+    if (!categories.some(category => category.id === FALLBACK_CATEGORY_ID)) {
+      throw new ValidationError(`The taxonomy must contain the "${FALLBACK_CATEGORY_ID}" category`);
+    }
+    await this.env.CACHE.put(TAXONOMY_KEY, JSON.stringify(categories));
+  }
+
+  async getDeviceCategories(deviceId: string): Promise<CategoryDefinition[]> {
+    const data = await this.env.CACHE.get(`categories:${deviceId}`);
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Replace a device's custom categories. IDs must start with "custom." and
+   * parents must be taxonomy or custom categories.
+   */
+  async setDeviceCategories(deviceId: string, categories: CategoryDefinition[]): Promise<void> {
+    if (categories.length > MAX_CUSTOM_CATEGORIES) {
+      throw new ValidationError(`At most ${MAX_CUSTOM_CATEGORIES} custom categories per device`);
+    }
+    if (categories.some(category => !category.id.startsWith(CUSTOM_CATEGORY_PREFIX))) {
+      throw new ValidationError(`Custom category IDs must start with "${CUSTOM_CATEGORY_PREFIX}"`);
+    }
+    validateCategories(categories, await this.getTaxonomy());
+
+    if (categories.length === 0) {
+      await this.env.CACHE.delete(`categories:${deviceId}`);
+    } else {
+      await this.env.CACHE.put(`categories:${deviceId}`, JSON.stringify(categories));
+    }
+  }
+
+  /**
+   * Categories available when parsing for a device
+   */
+  async forDevice(deviceId: string): Promise<CategoryDefinition[]> {
+    const [taxonomy, custom] = await Promise.all([this.getTaxonomy(), this.getDeviceCategories(deviceId)]);
+    return [...taxonomy, ...custom];
+  }
+}
+
+/**
+ * Prompt lines listing the categories, e.g. "- food_drink.coffee: Coffee & Tea (under Food & Drink)"
+ */
+export function describeCategories(categories: CategoryDefinition[]): string {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  return categories.map(category => {
+    const parent = category.parent ? byId.get(category.parent) : undefined;
+    return `- ${category.id}: ${category.names.en}${parent ? ` (under ${parent.names.en})` : ''}`;
+  }).join('\n');
+}
+
+/**
+ * Map the model's category onto the taxonomy: a valid category_id is kept,
+ * otherwise the ID or free-text name is matched against IDs and names in
+ * every locale (exactly, then by shared words such as "Food & Beverage" →
+ * "Food & Drink"), falling back to "other"
+ */
+export function snapCategory(
+  categories: CategoryDefinition[],
+  categoryId: string | undefined,
+  categoryText: string | undefined,
+  locale?: string
+): SnappedCategory {
+  const byId = new Map(categories.map(category => [category.id, category]));
+
+  let match = categoryId ? byId.get(categoryId) : undefined;
+  if (!match) {
+    for (const candidate of [categoryId, categoryText]) {
+      const normalized = candidate?.trim().toLowerCase();
+      if (!normalized) {
+        continue;
+      }
+      match = categories.find(category =>
+        category.id === normalized ||
+        Object.values(category.names).some(name => name.toLowerCase() === normalized)
+      ) ?? categories.find(category =>
+        Object.values(category.names).some(name =>
+          name.toLowerCase().includes(normalized) || normalized.includes(name.toLowerCase())
+        )
+      ) ?? categories.find(category =>
+        Object.values(category.names).some(name => sharesWord(name.toLowerCase(), normalized))
+      );
+      if (match) {
+        break;
+      }
+    }
+  }
+  match ??= byId.get(FALLBACK_CATEGORY_ID) ?? categories[0]!;
+
+  const path: string[] = [];
+  for (let current: CategoryDefinition | undefined = match; current; current = current.parent ? byId.get(current.parent) : undefined) {
+    path.unshift(current.id);
+    if (path.length > categories.length) {
+      break; // guard against parent cycles
+    }
+  }
+
+  return { id: match.id, name: localizedName(match, locale), path };
+}
+
+/**
+ * Name in the requested locale ("zh-Hans-CN" → "zh-Hans-CN", "zh-Hans", "zh"), else English
+ */
+export function localizedName(category: CategoryDefinition, locale?: string): string {
+  const subtags = (locale ?? '').replace(/_/g, '-').split('-').filter(Boolean);
+  for (let length = subtags.length; length > 0; length--) {
+    const name = category.names[subtags.slice(0, length).join('-')];
+    if (name) {
+      return name;
+    }
+  }
+  return category.names.en!;
+}
+
+/**
+ * Whether two names share a word, allowing inflections ("transport" / "transportation")
+ */
+function sharesWord(a: string, b: string): boolean {
+  const words = (text: string) => text.split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 4);
+  const other = words(b);
+  return words(a).some(word => other.some(candidate => candidate.startsWith(word) || word.startsWith(candidate)));
+}
+
+function validateCategories(categories: CategoryDefinition[], existing: CategoryDefinition[]): void {
+  const ids = new Set(existing.map(category => category.id));
+  for (const category of categories) {
+    if (ids.has(category.id)) {
+      throw new ValidationError(`Duplicate category ID: ${category.id}`);
+    }
+    ids.add(category.id);
+  }
+  for (const category of categories) {
+    if (category.parent !== null && !ids.has(category.parent)) {
+      throw new ValidationError(`Unknown parent "${category.parent}" for category ${category.id}`);
+    }
+    if (category.parent === category.id) {
+      throw new ValidationError(`Category ${category.id} cannot be its own parent`);
+    }
+    if (!category.names.en) {
+      throw new ValidationError(`Category ${category.id} needs an English ("en") name`);
+    }
+  }
+}
@@ -0,0 +1,272 @@
+// ISO 4217 active currency codes and their minor-unit exponents
+export const ISO_4217_MINOR_UNITS: { [code: string]: number } = {
+  AED: 2, AFN: 2, ALL: 2, AMD: 2, AOA: 2, ARS: 2, AUD: 2, AWG: 2, AZN: 2,
+  BAM: 2, BBD: 2, BDT: 2, BGN: 2, BHD: 3, BIF: 0, BMD: 2, BND: 2, BOB: 2,
+  BOV: 2, BRL: 2, BSD: 2, BTN: 2, BWP: 2, BYN: 2, BZD: 2,
+  CAD: 2, CDF: 2, CHE: 2, CHF: 2, CHW: 2, CLF: 4, CLP: 0, CNY: 2, COP: 2,
+  COU: 2, CRC: 2, CUP: 2, CVE: 2, CZK: 2,
+  DJF: 0, DKK: 2, DOP: 2, DZD: 2,
+  EGP: 2, ERN: 2, ETB: 2, EUR: 2,
+  FJD: 2, FKP: 2,
+  GBP: 2, GEL: 2, GHS: 2, GIP: 2, GMD: 2, GNF: 0, GTQ: 2, GYD: 2,
+  HKD: 2, HNL: 2, HTG: 2, HUF: 2,
+  IDR: 2, ILS: 2, INR: 2, IQD: 3, IRR: 2, ISK: 0,
+  JMD: 2, JOD: 3, JPY: 0,
+  KES: 2, KGS: 2, KHR: 2, KMF: 0, KPW: 2, KRW: 0, KWD: 3, KYD: 2, KZT: 2,
+  LAK: 2, LBP: 2, LKR: 2, LRD: 2, LSL: 2, LYD: 3,
+  MAD: 2, MDL: 2, MGA: 2, MKD: 2, MMK: 2, MNT: 2, MOP: 2, MRU: 2, MUR: 2,
+  MVR: 2, MWK: 2, MXN: 2, MXV: 2, MYR: 2, MZN: 2,
+  NAD: 2, NGN: 2, NIO: 2, NOK: 2, NPR: 2, NZD: 2,
+  OMR: 3,
+  PAB: 2, PEN: 2, PGK: 2, PHP: 2, PKR: 2, PLN: 2, PYG: 0,
+  QAR: 2,
+  RON: 2, RSD: 2, RUB: 2, RWF: 0,
+  SAR: 2, SBD: 2, SCR: 2, SDG: 2, SEK: 2, SGD: 2, SHP: 2, SLE: 2, SOS: 2,
+  SRD: 2, SSP: 2, STN: 2, SVC: 2, SYP: 2, SZL: 2,
+  THB: 2, TJS: 2, TMT: 2, TND: 3, TOP: 2, TRY: 2, TTD: 2, TWD: 2, TZS: 2,
+  UAH: 2, UGX: 0, USD: 2, USN: 2, UYI: 0, UYU: 2, UYW: 4, UZS: 2,
+  VED: 2, VES: 2, VND: 0, VUV: 0,
+  WST: 2,
+  XAF: 0, XCD: 2, XCG: 2, XOF: 0, XPF: 0,
+  YER: 2,
+  ZAR: 2, ZMW: 2, ZWG: 2
+};
+
+// ISO 4217 code for "no currency involved"; reported when the currency is unknown
+export const UNKNOWN_CURRENCY = 'XXX';
+
+// Confidence multiplier applied when the currency could not be determined
+const UNKNOWN_CURRENCY_CONFIDENCE_FACTOR = 0.5;
+
+// Currency symbols and local names mapped to ISO 4217 codes. Ambiguous
+// symbols map to their default here; see AMBIGUOUS_SYMBOLS.
+export const CURRENCY_SYMBOLS: { [symbol: string]: string } = {
+  '¥': 'CNY',
+  '￥': 'CNY',
+  '元': 'CNY',
+  '円': 'JPY',
+  '$': 'USD',
+  'US$': 'USD',
+  '美元': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  'NZ$': 'NZD',
+  'S$': 'SGD',
+  'HK$': 'HKD',
+  'NT$': 'TWD',
+  'MX$': 'MXN',
+  'R$': 'BRL',
+  '€': 'EUR',
+  '欧元': 'EUR',
+  '£': 'GBP',
+  '英镑': 'GBP',
+  '港币': 'HKD',
+  '港元': 'HKD',
+  '台币': 'TWD',
+  '新台币': 'TWD',
+  '日元': 'JPY',
+  '韩元': 'KRW',
+  '₩': 'KRW',
+  '₹': 'INR',
+  '₽': 'RUB',
+  '₺': 'TRY',
+  '₫': 'VND',
+  '₱': 'PHP',
+  '฿': 'THB',
+  '₪': 'ILS',
+  '₴': 'UAH',
+  'zł': 'PLN',
+  'kr': 'ISK',
+  'Kč': 'CZK',
+  'Ft': 'HUF',
+};
+
+// Symbols shared by several currencies, with the candidates they can denote
+const AMBIGUOUS_SYMBOLS: { [symbol: string]: string[] } = {
+  '$': ['USD', 'CAD', 'AUD', 'NZD', 'SGD', 'HKD', 'TWD', 'MXN'],
+  '¥': ['CNY', 'JPY'],
+  '￥': ['CNY', 'JPY'],
+  'kr': ['ISK', 'SEK', 'NOK', 'DKK']
+};
+
+// Place names (English and local) to the currency used there
+const LOCATION_CURRENCIES: Array<[RegExp, string]> = [
+  [/\b(?:united states|usa|u\.s\.|new york|san francisco|los angeles|chicago|seattle)\b|美国/i, 'USD'],
+  [/\b(?:canada|toronto|vancouver|montr[eé]al|ottawa|calgary)\b|加拿大/i, 'CAD'],
+  [/\b(?:australia|sydney|melbourne|brisbane|perth)\b|澳大利亚|澳洲/i, 'AUD'],
+  [/\b(?:new zealand|auckland|wellington)\b|新西兰/i, 'NZD'],
+  [/\bsingapore\b|新加坡/i, 'SGD'],
+  [/\bhong kong\b|香港/i, 'HKD'],
+  [/\b(?:taiwan|taipei)\b|台湾|台北/i, 'TWD'],
+  [/\b(?:mexico|m[eé]xico|cdmx)\b|墨西哥/i, 'MXN'],
+  [/\b(?:japan|tokyo|osaka|kyoto)\b|日本|東京|东京|大阪/i, 'JPY'],
+  [/\b(?:china|beijing|shanghai|shenzhen|guangzhou)\b|中国|北京|上海|深圳|广州/i, 'CNY'],
+  [/\b(?:iceland|reykjav[ií]k|keflav[ií]k)\b|冰岛|凱夫拉維克/i, 'ISK'],
+  [/\b(?:sweden|stockholm|gothenburg)\b|瑞典/i, 'SEK'],
+  [/\b(?:norway|oslo|bergen)\b|挪威/i, 'NOK'],
+  [/\b(?:denmark|copenhagen)\b|丹麦/i, 'DKK']
+];
+
+// Locale region (or language, for locales without one) to currency
+const LOCALE_CURRENCIES: { [regionOrLanguage: string]: string } = {
+  US: 'USD', CA: 'CAD', AU: 'AUD', NZ: 'NZD', SG: 'SGD', HK: 'HKD', TW: 'TWD',
+  MX: 'MXN', JP: 'JPY', CN: 'CNY', IS: 'ISK', SE: 'SEK', NO: 'NOK', DK: 'DKK',
+  ja: 'JPY', zh: 'CNY', is: 'ISK', sv: 'SEK', nb: 'NOK', nn: 'NOK', no: 'NOK', da: 'DKK'
+};
+
+export interface CurrencyContext {
+  location?: string | null; // user or merchant location
+  locale?: string | null; // BCP 47, e.g. "en-CA"
+  text?: string; // the text the symbol appeared in
+}
+
+export interface NormalizedMoney {
+  amount: string; // rounded to the currency's minor unit
+  amount_minor: number | null; // integer amount in minor units; null for unknown currencies
+  currency: string; // ISO 4217 code, or XXX when unknown
+  known: boolean;
+}
+
+/**
+ * Whether `code` is an active ISO 4217 currency code
+ */
+export function isKnownCurrency(code: string): boolean {
+  return ISO_4217_MINOR_UNITS[code] !== undefined;
+}
+
+/**
+ * Minor-unit exponent of a currency (2 for USD, 0 for JPY), or null if unknown
+ */
+export function minorUnits(code: string): number | null {
+  return ISO_4217_MINOR_UNITS[code] ?? null;
+}
+
+/**
+ * Whether `symbol` is shared by several currencies ("$", "¥", "kr") and
+ * needs context to be resolved
+ */
+export function isAmbiguousCurrencySymbol(symbol: string): boolean {
+  return ambiguousCandidates(symbol) !== undefined;
+}
+
+/**
+ * Normalize a currency code, symbol or local name to an ISO 4217 code.
+ * Ambiguous symbols are resolved from the context; anything unrecognized
+ * becomes XXX instead of being guessed.
+ */
+export function normalizeCurrency(currency: string, context: CurrencyContext = {}): string {
+  const trimmed = currency.trim();
+
+  const candidates = ambiguousCandidates(trimmed);
+  if (candidates) {
+    return resolveAmbiguousSymbol(candidates, context);
+  }
+
+  // Direct mapping
+  if (CURRENCY_SYMBOLS[trimmed]) {
+    return CURRENCY_SYMBOLS[trimmed];
+  }
+
+  const code = trimmed.toUpperCase();
+  if (code === 'RMB') {
+    return 'CNY';
+  }
+  return isKnownCurrency(code) ? code : UNKNOWN_CURRENCY;
+}
+
+/**
+ * Best guess at the local currency from location and locale alone,
+ * or null when neither identifies one
+ */
+export function inferCurrency(context: CurrencyContext): string | null {
+  const fromLocation = context.location ? matchLocation(context.location) : undefined;
+  return fromLocation ?? localeCurrency(context.locale) ?? null;
+}
+
+/**
+ * Validate the currency and round the amount to its minor unit. Unknown
+ * currencies are reported as XXX and leave the amount as given.
+ */
+export function normalizeMoney(amount: string, currency: string, context: CurrencyContext = {}): NormalizedMoney {
+  const code = normalizeCurrency(currency, context);
+  const exponent = minorUnits(code);
+  if (exponent === null) {
+    return { amount, amount_minor: null, currency: UNKNOWN_CURRENCY, known: false };
+  }
+
+  const minor = toMinorUnits(amount, exponent);
+  if (minor === null) {
+    return { amount, amount_minor: null, currency: code, known: true };
+  }
+  return { amount: fromMinorUnits(minor, exponent), amount_minor: Number(minor), currency: code, known: true };
+}
+
+/**
+ * Confidence to report when the currency could not be determined
+ */
+export function unknownCurrencyConfidence(confidence: number): number {
+  return Math.round(confidence * UNKNOWN_CURRENCY_CONFIDENCE_FACTOR * 100) / 100;
+}
+
+function ambiguousCandidates(symbol: string): string[] | undefined {
+  const trimmed = symbol.trim();
+  return AMBIGUOUS_SYMBOLS[trimmed] ?? AMBIGUOUS_SYMBOLS[trimmed.toLowerCase()];
+}
+
+function resolveAmbiguousSymbol(candidates: string[], context: CurrencyContext): string {
+  const inferred = inferCurrency(context);
+  if (inferred && candidates.includes(inferred)) {
+    return inferred;
+  }
+
+  // Japanese kana next to ¥ means yen
+  if (candidates.includes('JPY') && context.text && /[぀-ヿ]/.test(context.text)) {
+    return 'JPY';
+  }
+
+  return candidates[0]!;
+}
+
+function matchLocation(location: string): string | undefined {
+  return LOCATION_CURRENCIES.find(([pattern]) => pattern.test(location))?.[1];
+}
+
+function localeCurrency(locale: string | null | undefined): string | undefined {
+  if (!locale) {
+    return undefined;
+  }
+  const [language, ...subtags] = locale.replace(/_/g, '-').split('-');
+  const region = subtags.find(subtag => /^[A-Za-z]{2}$/.test(subtag))?.toUpperCase();
+  return (region && LOCALE_CURRENCIES[region]) || LOCALE_CURRENCIES[language!.toLowerCase()];
+}
+
+/**
+ * "12.345" at exponent 2 → 1235n (half-up), using integer arithmetic only
+ */
+function toMinorUnits(amount: string, exponent: number): bigint | null {
+  const match = amount.match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, integerPart, fraction = ''] = match;
+  const kept = fraction.slice(0, exponent).padEnd(exponent, '0');
+  let minor = BigInt(integerPart! + kept);
+  if ((fraction[exponent] ?? '0') >= '5') {
+    minor += 1n;
+  }
+  return minor;
+}
+
+/**
+ * Format an amount in minor units as a decimal string, e.g. 1250n, 2 → "12.50"
+ */
+export function fromMinorUnits(minor: bigint, exponent: number): string {
+  if (exponent === 0) {
+    return minor.toString();
+  }
+  const digits = minor.toString().padStart(exponent + 1, '0');
+  return `${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
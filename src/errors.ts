@@ -0,0 +1,99 @@
+import { Context } from 'hono';
+import { ContentfulStatusCode } from 'hono/utils/http-status';
+import { z } from 'zod';
+import { Env, APIError, ErrorBody, RateLimitError, QuotaExceededError } from './types';
+
+export interface ErrorDefinition {
+  status: ContentfulStatusCode;
+  description: string; // also the message of 5xx errors in production
+}
+
+// Every code an error response can carry; published at /api/v1/errors
+export const ERROR_CATALOG: { [code: string]: ErrorDefinition } = {
+  VALIDATION_ERROR: { status: 400, description: 'The request body, query or parameters are invalid' },
+  AUTHENTICATION_ERROR: { status: 401, description: 'The device is unknown or its key or token is invalid or expired' },
+  SIGNATURE_MISSING: { status: 401, description: 'x-device-id, x-timestamp or x-signature is missing' },
+  SIGNATURE_INVALID: { status: 401, description: 'The request signature does not verify' },
+  SIGNATURE_VERSION_UNSUPPORTED: { status: 401, description: 'x-signature-version names an unknown signing scheme' },
+  NONCE_MISSING: { status: 401, description: 'x-nonce is missing or malformed' },
+  NONCE_REUSED: { status: 401, description: 'The nonce has already been used' },
+  DEVICE_TOKEN_MISSING: { status: 401, description: 'The route requires a device token' },
+  ADMIN_REQUIRED: { status: 401, description: 'The route requires a valid admin credential' },
+  CHALLENGE_INVALID: { status: 401, description: 'The registration challenge is malformed or forged' },
+  CHALLENGE_EXPIRED: { status: 401, description: 'The registration challenge has expired' },
+  CHALLENGE_REUSED: { status: 401, description: 'The registration challenge has already been used' },
+  ATTESTATION_REQUIRED: { status: 401, description: 'Registration requires an attestation' },
+  ATTESTATION_FAILED: { status: 401, description: 'The attestation or proof of work did not verify' },
+  FORBIDDEN: { status: 403, description: 'The credential is valid but not allowed to do this' },
+  DEVICE_MISMATCH: { status: 403, description: 'The device in the path is not the signed device' },
+  NOT_FOUND: { status: 404, description: 'The requested endpoint or resource does not exist' },
+  DEVICE_NOT_FOUND: { status: 404, description: 'No device is registered with this ID' },
+  MERCHANT_NOT_FOUND: { status: 404, description: 'No merchant has this ID' },
+  CONFLICT: { status: 409, description: 'The request conflicts with existing data' },
+  DEVICE_ALREADY_REGISTERED: { status: 409, description: 'Re-registering an active device must be signed with its current key' },
+  MERCHANT_EXISTS: { status: 409, description: 'A merchant with this ID already exists' },
+  MERCHANT_ALIAS_CONFLICT: { status: 409, description: 'An alias is already used by another merchant' },
+  PROMPT_VERSION_EXISTS: { status: 409, description: 'A prompt version with this ID already exists' },
+  RATE_LIMIT_EXCEEDED: { status: 429, description: 'Too many requests; retry after Retry-After seconds' },
+  TOKEN_QUOTA_EXCEEDED: { status: 429, description: 'The device has used its daily or monthly AI token quota' },
+  INTERNAL_ERROR: { status: 500, description: 'Internal server error' },
+  AI_API_ERROR: { status: 502, description: 'The AI provider returned an error' },
+  AI_INVALID_RESPONSE: { status: 502, description: 'The AI provider returned an unusable response' },
+  AI_PROVIDERS_UNAVAILABLE: { status: 503, description: 'All AI providers are temporarily unavailable' },
+  AI_API_TIMEOUT: { status: 504, description: 'The AI provider did not respond in time' }
+};
+
+/**
+ * Status and envelope for an error. Catalogued codes use the catalog status
+ * (so a provider's 401 stays a 502 for the client); in production, messages
+ * of 5xx errors are replaced by the catalog description.
+ */
+export function describeError(
+  error: unknown,
+  env: Env,
+  requestId: string
+): { status: ContentfulStatusCode; body: ErrorBody } {
+  let code = 'INTERNAL_ERROR';
+  let status: ContentfulStatusCode = 500;
+  let message = error instanceof Error ? error.message : String(error);
+  let details: unknown = null;
+
+  if (error instanceof z.ZodError) {
+    code = 'VALIDATION_ERROR';
+    status = 400;
+    message = 'Invalid request data';
+    details = error.errors;
+  } else if (error instanceof APIError) {
+    code = error.code;
+    // Uncatalogued codes keep their own status when it is an error status
+    status = ERROR_CATALOG[code]?.status
+      ?? (error.statusCode >= 400 && error.statusCode <= 599 ? error.statusCode as ContentfulStatusCode : 500);
+    if ((error instanceof RateLimitError || error instanceof QuotaExceededError) && error.retryAfterSeconds !== undefined) {
+      details = { retry_after_seconds: error.retryAfterSeconds };
+    }
+  }
+
+  if (status >= 500 && env.ENVIRONMENT === 'production') {
+    message = ERROR_CATALOG[code]?.description ?? ERROR_CATALOG.INTERNAL_ERROR!.description;
+  }
+
+  return { status, body: { code, message, details, request_id: requestId } };
+}
+
+/**
+ * app.onError: log the error and answer with the error envelope
+ */
+export function handleError(error: unknown, c: Context<{ Bindings: Env }>): Response {
+  const { status, body } = describeError(error, c.env, c.get('requestId'));
+  if (status >= 500) {
+    console.error(`${c.req.method} ${c.req.path} failed:`, error);
+  } else {
+    console.warn(`${c.req.method} ${c.req.path} rejected: ${body.code}`);
+  }
+
+  const retryAfter = (body.details as { retry_after_seconds?: number } | null)?.retry_after_seconds;
+  if (retryAfter !== undefined) {
+    c.header('Retry-After', String(retryAfter));
+  }
+  return c.json({ success: false, error: body }, status);
+}
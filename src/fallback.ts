@@ -0,0 +1,271 @@
+import { ExpenseParseRequest, ExpenseParseData, ExpenseTransaction } from './types';
+import { resolveTimestamp } from './timezone';
+import {
+  CURRENCY_SYMBOLS,
+  ISO_4217_MINOR_UNITS,
+  UNKNOWN_CURRENCY,
+  CurrencyContext,
+  inferCurrency,
+  minorUnits,
+  normalizeCurrency,
+  normalizeMoney,
+  unknownCurrencyConfidence
+} from './currency';
+
+// ISO codes (and RMB) recognized in free text next to an amount. Matched in
+// upper case only, so words such as "all" or "top" are not taken for codes.
+const KNOWN_CURRENCY_CODES = [...Object.keys(ISO_4217_MINOR_UNITS), 'RMB'];
+
+// Payment methods and card providers, matched case-insensitively
+const PAYMENT_METHODS: Array<[RegExp, string]> = [
+  [/apple\s*pay/i, 'Apple Pay'],
+  [/google\s*pay/i, 'Google Pay'],
+  [/samsung\s*pay/i, 'Samsung Pay'],
+  [/支付宝|alipay/i, 'Alipay'],
+  [/微信支付|微信|wechat\s*pay/i, 'WeChat Pay'],
+  [/credit\s*card|信用卡/i, 'Credit Card'],
+  [/debit\s*card|借记卡|储蓄卡/i, 'Debit Card']
+];
+
+const PAYMENT_CARDS: Array<[RegExp, string]> = [
+  [/\bmonzo\b/i, 'Monzo'],
+  [/\bhsbc\b|汇丰/i, 'HSBC'],
+  [/\bstarling\b/i, 'Starling'],
+  [/\brevolut\b/i, 'Revolut'],
+  [/\bbarclays\b/i, 'Barclays'],
+  [/\bchase\b/i, 'Chase'],
+  [/招商银行/, 'China Merchants Bank'],
+  [/\bamex\b|american\s*express/i, 'American Express'],
+  [/\bvisa\b/i, 'Visa'],
+  [/\bmastercard\b/i, 'Mastercard']
+];
+
+const TIMESTAMP_LABEL = /(?:交易时间|支付时间|付款时间|创建时间|时间|日期|transaction\s*time|time|date)\s*[:：]\s*/i;
+const MERCHANT_LABEL = /(?:商户名称|商户|商家|收款方|merchant|payee)\s*[:：]\s*([^\n]+)/i;
+const AMOUNT_LABEL = /(?:金额|实付|支付金额|付款金额|amount|total)\s*[:：]\s*/i;
+
+// 1,234.56 / 1.234,56 / 12.50 / 12,50
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+(?:[.,]\\d+)?|\\d{1,3}(?:\\.\\d{3})+(?:,\\d+)?|\\d+(?:[.,]\\d+)?)';
+
+// "1.234": a thousands separator, or three decimals (KWD, BHD, …)
+const AMBIGUOUS_DOT_AMOUNT = /^\d{1,3}\.\d{3}$/;
+
+const FALLBACK_BASE_CONFIDENCE = 0.3;
+const FALLBACK_MAX_CONFIDENCE = 0.45;
+
+/**
+ * Deterministic, rule-based expense extraction used when the AI provider is
+ * unavailable. Returns null when no amount can be found.
+ */
+export function parseExpenseOffline(request: ExpenseParseRequest, reason: string): ExpenseParseData | null {
+  const text = request.text;
+  const currencyContext: CurrencyContext = {
+    location: request.context?.location,
+    locale: request.context?.locale,
+    text
+  };
+  const amountMatch = extractAmount(text);
+  if (!amountMatch) {
+    return null;
+  }
+
+  // Without a currency marker, go by the user's location or locale
+  const currency = normalizeCurrency(
+    amountMatch.currency ?? inferCurrency(currencyContext) ?? UNKNOWN_CURRENCY,
+    currencyContext
+  );
+
+  let amount = amountMatch.amount;
+  if (AMBIGUOUS_DOT_AMOUNT.test(amountMatch.number)) {
+    // Only the currency's minor unit tells "€1.234" (1234) from "KWD 1.234"
+    const exponent = minorUnits(currency);
+    if (exponent === null) {
+      return null;
+    }
+    if (exponent < 3) {
+      amount = amountMatch.number.replace('.', '');
+    }
+  }
+  const money = normalizeMoney(amount, currency, currencyContext);
+
+  const paymentMethod = findFirst(PAYMENT_METHODS, text);
+  const paymentCard = findFirst(PAYMENT_CARDS, text);
+  const timestamp = resolveTimestamp(extractTimestamp(text) ?? request.context?.timestamp, {
+    timezone: request.context?.timezone,
+    timezone_offset: request.context?.timezone_offset
+  });
+  const merchant = extractMerchant(text, amountMatch.raw);
+
+  let confidence = FALLBACK_BASE_CONFIDENCE;
+  for (const field of [merchant, paymentMethod, timestamp]) {
+    if (field) {
+      confidence += 0.05;
+    }
+  }
+  confidence = Math.round(Math.min(confidence, FALLBACK_MAX_CONFIDENCE) * 100) / 100;
+
+  return {
+    amount: money.amount,
+    amount_minor: money.amount_minor,
+    currency: money.currency,
+    merchant: merchant ?? null,
+    payment_method: paymentMethod ?? null,
+    payment_card: paymentCard ?? null,
+    location: request.context?.location ?? null,
+    timestamp: timestamp?.timestamp ?? null,
+    timestamp_local: timestamp?.timestamp_local ?? null,
+    confidence: money.known ? confidence : unknownCurrencyConfidence(confidence),
+    extensions: {
+      parsed_at: new Date().toISOString(),
+      source: 'rule_based_fallback',
+      fallback_reason: reason,
+      original_text: text,
+      ...(timestamp ? { timezone: timestamp.timezone, timezone_source: timestamp.timezone_source } : {})
+    }
+  };
+}
+
+/**
+ * Rule-based extraction for multi-transaction texts: every line with an
+ * amount is read as one transaction, spanning that line. Returns null when
+ * no line has an amount.
+ */
+export function parseExpenseListOffline(request: ExpenseParseRequest, reason: string): ExpenseTransaction[] | null {
+  const transactions: ExpenseTransaction[] = [];
+  let offset = 0;
+  for (const line of request.text.split('\n')) {
+    const text = line.trim();
+    const result = text ? parseExpenseOffline({ ...request, text }, reason) : null;
+    if (result) {
+      const start = offset + line.indexOf(text);
+      transactions.push({ ...result, source_span: { start, end: start + text.length } });
+    }
+    offset += line.length + 1;
+  }
+  return transactions.length > 0 ? transactions : null;
+}
+
+interface AmountMatch {
+  amount: string;
+  number: string; // the amount as written
+  currency: string | null; // symbol or code as written
+  raw: string;
+}
+
+function extractAmount(text: string): AmountMatch | null {
+  // Letter-only symbols would match ordinary words; "kr" is only matched after an amount
+  const symbols = Object.keys(CURRENCY_SYMBOLS)
+    .filter(symbol => !/^[A-Za-z]+$/.test(symbol))
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const codes = KNOWN_CURRENCY_CODES.join('|');
+
+  const patterns: Array<{ regex: RegExp; currencyGroup: number; amountGroup: number }> = [
+    // £9.65, ¥ 25.00, USD 12.50
+    { regex: new RegExp(`(${symbols}|\\b(?:${codes}))\\s?${NUMBER}`), currencyGroup: 1, amountGroup: 2 },
+    // 25.00元, 2,799 ISK, 150 kr
+    { regex: new RegExp(`${NUMBER}\\s?(${symbols}|(?:${codes})\\b|[Kk]r\\b)`), currencyGroup: 2, amountGroup: 1 }
+  ];
+
+  for (const { regex, currencyGroup, amountGroup } of patterns) {
+    const match = text.match(regex);
+    if (match) {
+      return {
+        amount: normalizeAmount(match[amountGroup]!),
+        number: match[amountGroup]!,
+        currency: match[currencyGroup]!,
+        raw: match[0]
+      };
+    }
+  }
+
+  // Labeled amount without a currency marker, e.g. "金额：25.00"
+  const labeled = text.match(new RegExp(`${AMOUNT_LABEL.source}${NUMBER}`, 'i'));
+  if (labeled) {
+    return {
+      amount: normalizeAmount(labeled[1]!),
+      number: labeled[1]!,
+      currency: /[一-鿿]/.test(text) ? 'CNY' : null,
+      raw: labeled[0]
+    };
+  }
+
+  return null;
+}
+
+/**
+ * "2,799" → "2799", "1,234.56" → "1234.56", "1.234,56" → "1234.56",
+ * "12,50" → "12.50", "1.234.567" → "1234567"
+ */
+export function normalizeAmount(raw: string): string {
+  const compact = raw.replace(/\s/g, '');
+  const lastSeparator = Math.max(compact.lastIndexOf('.'), compact.lastIndexOf(','));
+  if (lastSeparator === -1) {
+    return compact;
+  }
+
+  const separator = compact[lastSeparator]!;
+  if (compact.indexOf(separator) !== lastSeparator && !compact.includes(separator === '.' ? ',' : '.')) {
+    // The same separator more than once only groups thousands
+    return compact.replace(/[.,]/g, '');
+  }
+
+  const decimals = compact.length - lastSeparator - 1;
+  const integerPart = compact.slice(0, lastSeparator).replace(/[.,]/g, '');
+  if (decimals === 3 && compact[lastSeparator] === ',') {
+    // Thousands separator, not a decimal comma
+    return integerPart + compact.slice(lastSeparator + 1);
+  }
+  return `${integerPart}.${compact.slice(lastSeparator + 1)}`;
+}
+
+function extractTimestamp(text: string): string | null {
+  const datePattern = /(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?(?:\s+|T)?(?:(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+  // Prefer a date that follows a transaction time label
+  const labelMatch = text.match(TIMESTAMP_LABEL);
+  const labeledText = labelMatch ? text.slice(labelMatch.index! + labelMatch[0].length) : null;
+  const match = (labeledText && labeledText.match(datePattern)) || text.match(datePattern);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  const pad = (value: string) => value.padStart(2, '0');
+  // Naive local time; the timezone is applied by resolveTimestamp
+  return `${year}-${pad(month!)}-${pad(day!)}T${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
+
+function extractMerchant(text: string, amountText: string): string | undefined {
+  const labeled = text.match(MERCHANT_LABEL);
+  if (labeled) {
+    return labeled[1]!.trim();
+  }
+
+  // Short single-line texts like "£9.65 Costa Coffee": whatever is left
+  // after removing the amount and payment method is likely the merchant
+  if (text.includes('\n') || text.length > 80) {
+    return undefined;
+  }
+
+  let remainder = text.replace(amountText, ' ');
+  for (const [pattern] of [...PAYMENT_METHODS, ...PAYMENT_CARDS]) {
+    remainder = remainder.replace(pattern, ' ');
+  }
+  remainder = remainder
+    .replace(/\b(?:paid|payment|at|with|via|to|for|card)\b/gi, ' ')
+    .replace(/[,，;；:：]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return remainder.length >= 2 && !/\d{3,}/.test(remainder) ? remainder : undefined;
+}
+
+function findFirst(table: Array<[RegExp, string]>, text: string): string | undefined {
+  return table.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,191 @@
+import { Env, FeedbackFields } from './types';
+
+export const FEEDBACK_FIELDS = [
+  'amount',
+  'currency',
+  'merchant',
+  'payment_method',
+  'payment_card',
+  'location',
+  'timestamp',
+  'category_id'
+] as const;
+
+export type FeedbackField = typeof FEEDBACK_FIELDS[number];
+
+export interface FeedbackEntry {
+  text: string;
+  expected: FeedbackFields; // parser output with the user's corrections applied
+  corrected_fields: FeedbackField[];
+  created_at: string;
+}
+
+const MAX_DEVICE_ENTRIES = 50;
+const MAX_SHARED_DEVICE_ENTRIES = 20; // shared by one device
+const MAX_SHARED_DEVICES = 50; // most recently sharing devices merged into the pool
+const MAX_SHARED_ENTRIES = 200;
+const SHARED_KEY_PREFIX = 'shared-feedback:';
+const SHARED_POOL_KEY = 'shared-feedback-pool';
+const SHARED_POOL_TTL_SECONDS = 300;
+const MIN_SIMILARITY = 0.45;
+const MAX_EXAMPLES = 2;
+
+/**
+ * User corrections, kept per device (`feedback:<deviceId>`). Corrections the
+ * user opts to share are also kept under `shared-feedback:<deviceId>`, so
+ * each device writes only its own keys and deleting the device erases them;
+ * parses read a merged snapshot of the shared pool, rebuilt every few
+ * minutes. Only the newest entries are kept.
+ */
+export class FeedbackService {
+  constructor(private env: Env) {}
+
+  /**
+   * Store a correction. Returns its per-field outcome (see compareFields).
+   */
+  async record(
+    deviceId: string,
+    text: string,
+    original: FeedbackFields,
+    corrected: FeedbackFields,
+    share: boolean
+  ): Promise<{ [field: string]: boolean }> {
+    const accuracy = compareFields(original, corrected);
+    const entry: FeedbackEntry = {
+      text,
+      expected: { ...original, ...corrected },
+      corrected_fields: FEEDBACK_FIELDS.filter(field => accuracy[field] === false),
+      created_at: new Date().toISOString()
+    };
+
+    await this.append(`feedback:${deviceId}`, entry, MAX_DEVICE_ENTRIES);
+    if (share) {
+      await this.append(`${SHARED_KEY_PREFIX}${deviceId}`, entry, MAX_SHARED_DEVICE_ENTRIES);
+    }
+    return accuracy;
+  }
+
+  /**
+   * Candidate few-shot examples for a device: its own corrections first, then the shared pool
+   */
+  async examplesFor(deviceId: string): Promise<FeedbackEntry[]> {
+    const [own, shared] = await Promise.all([this.load(`feedback:${deviceId}`), this.sharedPool()]);
+    return [...own, ...shared];
+  }
+
+  /**
+   * Drop the shared pool snapshot, e.g. after a device's shared entries were deleted
+   */
+  async invalidateSharedPool(): Promise<void> {
+    await this.env.CACHE.delete(SHARED_POOL_KEY);
+  }
+
+  /**
+   * Newest shared entries of the devices that shared most recently
+   */
+  private async sharedPool(): Promise<FeedbackEntry[]> {
+    const cached = await this.env.CACHE.get(SHARED_POOL_KEY);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const sources: Array<{ name: string; updatedAt: string }> = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.env.CACHE.list<{ updated_at?: string }>({ prefix: SHARED_KEY_PREFIX, cursor });
+      for (const { name, metadata } of page.keys) {
+        sources.push({ name, updatedAt: metadata?.updated_at ?? '' });
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const newest = sources
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, MAX_SHARED_DEVICES);
+    const pool = (await Promise.all(newest.map(({ name }) => this.load(name))))
+      .flat()
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, MAX_SHARED_ENTRIES);
+
+    await this.env.CACHE.put(SHARED_POOL_KEY, JSON.stringify(pool), { expirationTtl: SHARED_POOL_TTL_SECONDS });
+    return pool;
+  }
+
+  private async load(key: string): Promise<FeedbackEntry[]> {
+    const data = await this.env.CACHE.get(key);
+    return data ? JSON.parse(data) : [];
+  }
+
+  private async append(key: string, entry: FeedbackEntry, limit: number): Promise<void> {
+    const entries = await this.load(key);
+    await this.env.CACHE.put(key, JSON.stringify([entry, ...entries].slice(0, limit)), {
+      metadata: { updated_at: entry.created_at } // lets sharedPool pick recent devices from a key listing
+    });
+  }
+}
+
+/**
+ * Per-field outcome of a correction: true when the parser got the field
+ * right, false when the user changed it. Fields in neither set are skipped.
+ */
+export function compareFields(original: FeedbackFields, corrected: FeedbackFields): { [field: string]: boolean } {
+  const outcome: { [field: string]: boolean } = {};
+  for (const field of FEEDBACK_FIELDS) {
+    if (original[field] === undefined && corrected[field] === undefined) {
+      continue;
+    }
+    outcome[field] = corrected[field] === undefined || sameValue(original[field], corrected[field]);
+  }
+  return outcome;
+}
+
+/**
+ * The corrections whose text looks most like `text`, best first. Digits are
+ * masked so messages in the same format match regardless of amounts and dates.
+ */
+export function selectExamples(entries: FeedbackEntry[], text: string, limit: number = MAX_EXAMPLES): FeedbackEntry[] {
+  const target = trigrams(text);
+  if (target.size === 0) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return entries
+    .map(entry => ({ entry, score: jaccard(target, trigrams(entry.text)) }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score) // stable: own corrections win ties
+    .filter(({ entry }) => !seen.has(entry.text) && seen.add(entry.text))
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => {
+    if (typeof value !== 'string') {
+      return value ?? null;
+    }
+    const trimmed = value.trim().toLowerCase();
+    return /^\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : trimmed; // "12.5" equals "12.50"
+  };
+  return normalize(a) === normalize(b);
+}
+
+function trigrams(text: string): Set<string> {
+  const normalized = text.toLowerCase().replace(/\d/g, '0').replace(/\s+/g, ' ').trim();
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= normalized.length; i++) {
+    grams.add(normalized.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) {
+      shared++;
+    }
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
@@ -0,0 +1,215 @@
+import { Env, ExpenseParseData, ExpenseConversion, ValidationError, ConflictError } from './types';
+import { isKnownCurrency, minorUnits, fromMinorUnits } from './currency';
+import { formatDate } from './stats';
+
+export interface FxRateRow {
+  date: string; // YYYY-MM-DD
+  currency: string;
+  rate: number; // units of `currency` per one unit of the base currency
+}
+
+// Rates for one day, relative to `base` (whose own rate is 1)
+interface DailyRates {
+  base: string;
+  rates: { [currency: string]: number };
+}
+
+export interface FxImportSummary {
+  base: string;
+  dates: number;
+  rates: number;
+  from: string;
+  to: string;
+}
+
+const DATES_KEY = 'fx:dates';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_DAYS_SEARCHED = 10; // stored days tried, newest first, before giving up
+const RATE_DECIMALS = 8; // rates are applied, and reported, rounded to this many decimals
+
+/**
+ * Exchange rates kept in KV as one record per day (`fx:rates:YYYY-MM-DD`),
+ * loaded by an admin upload rather than a live FX service. Conversions use
+ * the latest day on or before the transaction date.
+ */
+export class FxRateService {
+  private dates: string[] | null = null;
+  private daily = new Map<string, DailyRates | null>();
+
+  constructor(private env: Env) {}
+
+  /**
+   * Attach the amount converted to `homeCurrency`, or `converted: null` when
+   * no rate is available. Results without a home currency are returned as-is.
+   */
+  async convertResult<T extends ExpenseParseData>(data: T, homeCurrency: string | undefined): Promise<T> {
+    if (!homeCurrency) {
+      return data;
+    }
+
+    // The transaction's local date, where known
+    const rateDate = data.timestamp_local?.slice(0, 10)
+      ?? (data.timestamp && !Number.isNaN(Date.parse(data.timestamp))
+        ? formatDate(new Date(data.timestamp))
+        : formatDate(new Date()));
+    const found = await this.findRate(data.currency, homeCurrency, rateDate);
+    const exponent = minorUnits(homeCurrency);
+    const sourceExponent = minorUnits(data.currency);
+    if (!found || exponent === null || sourceExponent === null || data.amount_minor == null) {
+      return { ...data, converted: null };
+    }
+
+    // In integers: minor units × rate (scaled by 10^RATE_DECIMALS), rounded half away from zero
+    const rate = Math.round(found.rate * 10 ** RATE_DECIMALS);
+    const numerator = BigInt(data.amount_minor) * BigInt(rate) * 10n ** BigInt(exponent);
+    const denominator = 10n ** BigInt(sourceExponent + RATE_DECIMALS);
+    const magnitude = ((numerator < 0n ? -numerator : numerator) * 2n + denominator) / (2n * denominator);
+    const amountMinor = numerator < 0n ? -magnitude : magnitude;
+
+    const converted: ExpenseConversion = {
+      currency: homeCurrency,
+      amount: `${amountMinor < 0n ? '-' : ''}${fromMinorUnits(magnitude, exponent)}`,
+      amount_minor: Number(amountMinor),
+      rate: rate / 10 ** RATE_DECIMALS,
+      rate_date: found.date
+    };
+    return { ...data, converted };
+  }
+
+  /**
+   * Rate from one currency to another on the latest day on or before `date`
+   */
+  async findRate(from: string, to: string, date: string): Promise<{ rate: number; date: string } | null> {
+    if (from === to) {
+      return isKnownCurrency(from) ? { rate: 1, date } : null;
+    }
+
+    const candidates = (await this.loadDates()).filter(day => day <= date).slice(-MAX_DAYS_SEARCHED);
+    for (const day of candidates.reverse()) {
+      const rates = await this.loadDay(day);
+      const fromRate = rates && (from === rates.base ? 1 : rates.rates[from]);
+      const toRate = rates && (to === rates.base ? 1 : rates.rates[to]);
+      if (fromRate && toRate) {
+        return { rate: toRate / fromRate, date: day };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Store uploaded rates. Days already stored with the same base are merged.
+   * Nothing is stored if any uploaded day is already stored with another base.
+   */
+  async importRates(base: string, rows: FxRateRow[]): Promise<FxImportSummary> {
+    const byDate = new Map<string, { [currency: string]: number }>();
+    for (const row of rows) {
+      const rates = byDate.get(row.date) ?? {};
+      rates[row.currency] = row.rate;
+      byDate.set(row.date, rates);
+    }
+
+    const conflicts: string[] = [];
+    for (const date of byDate.keys()) {
+      const existing = await this.loadDay(date);
+      if (existing && existing.base !== base) {
+        conflicts.push(`${date} (${existing.base})`);
+      }
+    }
+    if (conflicts.length > 0) {
+      throw new ConflictError(`Rates already stored with another base for ${conflicts.join(', ')}; upload those days with the same base`);
+    }
+
+    for (const [date, rates] of byDate) {
+      const existing = await this.loadDay(date);
+      const merged: DailyRates = { base, rates: { ...existing?.rates, ...rates } };
+      await this.env.CACHE.put(`fx:rates:${date}`, JSON.stringify(merged));
+      this.daily.set(date, merged);
+    }
+
+    const dates = Array.from(new Set([...(await this.loadDates()), ...byDate.keys()])).sort();
+    await this.env.CACHE.put(DATES_KEY, JSON.stringify(dates));
+    this.dates = dates;
+
+    const uploaded = Array.from(byDate.keys()).sort();
+    return {
+      base,
+      dates: uploaded.length,
+      rates: rows.length,
+      from: uploaded[0]!,
+      to: uploaded[uploaded.length - 1]!
+    };
+  }
+
+  private async loadDates(): Promise<string[]> {
+    if (this.dates === null) {
+      const data = await this.env.CACHE.get(DATES_KEY);
+      this.dates = data ? JSON.parse(data) : [];
+    }
+    return this.dates!;
+  }
+
+  private async loadDay(date: string): Promise<DailyRates | null> {
+    if (!this.daily.has(date)) {
+      const data = await this.env.CACHE.get(`fx:rates:${date}`);
+      this.daily.set(date, data ? JSON.parse(data) : null);
+    }
+    return this.daily.get(date)!;
+  }
+}
+
+/**
+ * Parse a rates upload: CSV with a `date,currency,rate` header, or JSON
+ * `{ "rates": [{ "date", "currency", "rate" }] }`
+ */
+export function parseRatesUpload(body: string, contentType: string): FxRateRow[] {
+  let rows: Array<{ date?: unknown; currency?: unknown; rate?: unknown }>;
+
+  if (contentType.includes('json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+    const rates = (parsed as { rates?: unknown } | null)?.rates;
+    if (!Array.isArray(rates)) {
+      throw new ValidationError('Expected a "rates" array');
+    }
+    rows = rates;
+  } else {
+    const lines = body.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const header = lines.shift()?.toLowerCase().split(',').map(cell => cell.trim());
+    if (!header || !['date', 'currency', 'rate'].every(column => header.includes(column))) {
+      throw new ValidationError('CSV must start with a header containing date, currency and rate');
+    }
+    rows = lines.map(line => {
+      const cells = line.split(',').map(cell => cell.trim());
+      return {
+        date: cells[header.indexOf('date')],
+        currency: cells[header.indexOf('currency')],
+        rate: cells[header.indexOf('rate')]
+      };
+    });
+  }
+
+  if (rows.length === 0) {
+    throw new ValidationError('No rates in upload');
+  }
+
+  return rows.map((row, index) => {
+    const date = String(row.date ?? '');
+    const currency = String(row.currency ?? '').toUpperCase();
+    const rate = typeof row.rate === 'number' ? row.rate : parseFloat(String(row.rate ?? ''));
+
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+      throw new ValidationError(`Row ${index + 1}: invalid date "${date}"`);
+    }
+    if (!isKnownCurrency(currency)) {
+      throw new ValidationError(`Row ${index + 1}: unknown currency "${currency}"`);
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new ValidationError(`Row ${index + 1}: rate must be a positive number`);
+    }
+    return { date, currency, rate };
+  });
+}
@@ -5,14 +5,41 @@ import {
   Env,
   DeviceRegistrationRequest,
   DeviceRegistrationResponse,
+  DeviceKeyRotationResponse,
+  RegistrationChallengeResponse,
+  DeviceDeletionResponse,
+  DeviceCategoriesResponse,
   ExpenseParseRequest,
   ExpenseParseResponse,
+  ExpenseParseListResponse,
+  ExpenseBatchParseResponse,
+  ExpenseBatchParseItemResult,
+  ParseFeedbackRequest,
+  StatementImportResponse,
+  EnrichmentSuggestion,
   DeviceInfo,
+  APIError,
   ValidationError,
-  AuthenticationError
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError
 } from './types';
-import { SecurityManager } from './security';
-import { OpenAIService } from './openai';
+import { SecurityManager, DEVICE_KEY_TTL_SECONDS, NONCE_PATTERN } from './security';
+import { OpenAIService, ParseOptions, ENRICHMENT_CHUNK_SIZE, MAX_ENRICHED_DESCRIPTIONS } from './openai';
+import { StatsRecorder, formatDate } from './stats';
+import { QuotaManager } from './quota';
+import { RateLimitService, rateLimitHeaders } from './ratelimit';
+import { AttestationService } from './attestation';
+import { FxRateService, parseRatesUpload } from './fx';
+import { CategoryService, MAX_CUSTOM_CATEGORIES, localizedName } from './categories';
+import { MerchantService } from './merchants';
+import { FeedbackService } from './feedback';
+import { PromptRegistryService } from './prompts';
+import { CSV_PRESETS, MAX_STATEMENT_BYTES, parseStatement, normalizeStatement, applyEnrichment } from './statement';
+import { isKnownCurrency } from './currency';
+import { isValidTimeZone } from './timezone';
+import { validateReceiptImage, bytesToBase64, DEFAULT_MAX_IMAGE_BYTES } from './image';
 
 // Validation schemas
 const deviceRegistrationSchema = z.object({
@@ -22,249 +49,1119 @@ const deviceRegistrationSchema = z.object({
     os_version: z.string().min(1).max(20),
     app_version: z.string().min(1).max(20),
     platform: z.enum(['ios', 'android'])
-  })
+  }),
+  attestation: z.object({
+    type: z.string().min(1).max(50),
+    challenge: z.string().min(1).max(200),
+    solution: z.string().max(128).optional(),
+    token: z.string().max(16384).optional()
+  }).optional()
+});
+
+const expenseImageSchema = z.object({
+  data: z.string().min(1),
+  mime_type: z.string().optional()
 });
 
+const MAX_TEXT_CHARS = 5000;
+const MAX_MULTI_TEXT_CHARS = 20000; // statements and digests list many transactions
+
 const expenseParseSchema = z.object({
-  text: z.string().min(1).max(5000),
+  text: z.string().max(MAX_MULTI_TEXT_CHARS).default(''),
+  mode: z.enum(['single', 'multi']).default('single'),
+  image: expenseImageSchema.optional(),
   context: z.object({
     location: z.string().optional(),
+    locale: z.string().max(35).optional(),
+    home_currency: z.string().transform(code => code.toUpperCase())
+      .refine(isKnownCurrency, 'Unknown ISO 4217 currency code').optional(),
     timestamp: z.string().optional(),
     image_metadata: z.object({
       width: z.number().optional(),
       height: z.number().optional(),
       format: z.string().optional()
-    }).optional()
+    }).optional(),
+    timezone_offset: z.number().int().min(-720).max(840).optional(),
+    timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown IANA time zone').optional()
   }).optional()
+}).refine(data => data.text.trim().length > 0 || data.image !== undefined, {
+  message: 'Either text or image is required',
+  path: ['text']
+}).refine(data => data.mode === 'multi' || data.text.length <= MAX_TEXT_CHARS, {
+  message: `Text must contain at most ${MAX_TEXT_CHARS} characters (${MAX_MULTI_TEXT_CHARS} with mode "multi")`,
+  path: ['text']
+});
+
+const statementImportSchema = z.object({
+  format: z.enum(['csv', 'ofx', 'qif', 'camt053']).optional(),
+  preset: z.string().refine(name => name in CSV_PRESETS, 'Unknown CSV preset').optional(),
+  date_format: z.enum(['YMD', 'DMY', 'MDY']).optional(),
+  currency: z.string().transform(code => code.toUpperCase())
+    .refine(isKnownCurrency, 'Unknown ISO 4217 currency code').optional(),
+  home_currency: z.string().transform(code => code.toUpperCase())
+    .refine(isKnownCurrency, 'Unknown ISO 4217 currency code').optional(),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown IANA time zone').optional(),
+  locale: z.string().max(35).optional(),
+  enrich: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+});
+
+const categorySchema = z.object({
+  id: z.string().max(100).regex(/^[a-z0-9_]+(\.[a-z0-9_]+)*$/, 'Expected lowercase dot-separated segments'),
+  parent: z.string().max(100).nullable().default(null),
+  names: z.record(z.string().min(2).max(35), z.string().min(1).max(100))
+});
+
+const deviceCategoriesSchema = z.object({
+  categories: z.array(categorySchema).max(MAX_CUSTOM_CATEGORIES)
+});
+
+const taxonomySchema = z.object({
+  categories: z.array(categorySchema).min(1).max(500)
+});
+
+const feedbackFieldsSchema = z.object({
+  amount: z.string().max(50).optional(),
+  currency: z.string().max(3).optional(),
+  merchant: z.string().max(200).nullable().optional(),
+  payment_method: z.string().max(100).nullable().optional(),
+  payment_card: z.string().max(100).nullable().optional(),
+  location: z.string().max(200).nullable().optional(),
+  timestamp: z.string().max(40).nullable().optional(),
+  category_id: z.string().max(100).nullable().optional()
+}).strict();
+
+const parseFeedbackSchema = z.object({
+  text: z.string().min(1).max(5000),
+  original: feedbackFieldsSchema,
+  corrected: feedbackFieldsSchema,
+  share: z.boolean().default(false),
+  prompt_version: z.string().max(50).optional()
+});
+
+const promptVersionSchema = z.object({
+  id: z.string().min(1).max(50).regex(/^[A-Za-z0-9._-]+$/, 'Expected letters, digits, ".", "_" or "-"'),
+  system: z.string().min(1).max(50000)
+});
+
+const promptRolloutSchema = z.object({
+  active: z.string().min(1).max(50),
+  experiment: z.object({
+    name: z.string().min(1).max(100),
+    variants: z.array(z.object({
+      version: z.string().min(1).max(50),
+      percent: z.number().int().min(0).max(100)
+    })).min(1).max(10)
+  }).nullable().default(null)
+});
+
+const merchantSchema = z.object({
+  id: z.string().min(1).max(100).regex(/^[a-z0-9_-]+$/, 'Expected lowercase letters, digits, "_" or "-"'),
+  name: z.string().min(1).max(200),
+  aliases: z.array(z.string().min(1).max(200)).max(100).default([]),
+  category_id: z.string().max(100).nullable().optional(),
+  logo_key: z.string().max(200).nullable().optional()
+});
+
+const merchantImportSchema = z.object({
+  merchants: z.array(merchantSchema).min(1).max(5000),
+  replace: z.boolean().default(false)
+});
+
+const statsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  granularity: z.enum(['day', 'week', 'month']).default('day')
+});
+
+const MAX_STATS_RANGE_DAYS = 366;
+
+// Items are validated one by one so an invalid item fails alone
+const expenseBatchParseSchema = z.object({
+  items: z.array(z.unknown()).min(1)
 });
 
 export class APIHandlers {
   private security: SecurityManager;
   private openai: OpenAIService;
 
+  private stats: StatsRecorder;
+  private quota: QuotaManager;
+  private rateLimiter: RateLimitService;
+  private attestation: AttestationService;
+  private fx: FxRateService;
+  private categories: CategoryService;
+  private merchants: MerchantService;
+  private feedback: FeedbackService;
+  private prompts: PromptRegistryService;
+
   constructor(private env: Env) {
     this.security = new SecurityManager(env);
-    this.openai = new OpenAIService(env);
+    this.quota = new QuotaManager(env);
+    this.rateLimiter = new RateLimitService(env);
+    this.attestation = new AttestationService(env);
+    this.fx = new FxRateService(env);
+    this.categories = new CategoryService(env);
+    this.merchants = new MerchantService(env);
+    this.feedback = new FeedbackService(env);
+    this.prompts = new PromptRegistryService(env);
+    this.stats = new StatsRecorder(env);
+    this.openai = new OpenAIService(env, this.stats);
+  }
+
+  /**
+   * Persist usage counters collected while handling the request
+   */
+  async flushStats(): Promise<void> {
+    try {
+      await this.stats.flush();
+    } catch (error) {
+      console.error('Stats flush error:', error);
+    }
   }
 
   /**
    * Health check endpoint
    */
   async healthCheck(c: Context): Promise<Response> {
-    const arkHealthy = await this.openai.healthCheck();
+    const providers = await this.openai.healthCheck();
+    const anyHealthy = providers.some(provider => provider.status === 'healthy');
 
     return c.json({
       success: true,
       data: {
-        status: 'healthy',
+        status: anyHealthy ? 'healthy' : 'degraded',
         timestamp: new Date().toISOString(),
         version: this.env.API_VERSION,
         environment: this.env.ENVIRONMENT,
         services: {
-          ark_api: arkHealthy ? 'healthy' : 'unhealthy'
+          ai_providers: providers
         }
       }
     });
   }
 
+  /**
+   * Registration challenge endpoint
+   */
+  async getRegistrationChallenge(c: Context): Promise<Response> {
+    const issued = await this.attestation.issueChallenge();
+
+    const response: RegistrationChallengeResponse = {
+      success: true,
+      data: {
+        challenge: issued.challenge,
+        algorithm: 'sha256',
+        difficulty: issued.difficulty,
+        expires_at: issued.expires_at
+      }
+    };
+
+    return c.json(response);
+  }
+
   /**
    * Device registration endpoint
    */
   async registerDevice(c: Context): Promise<Response> {
+    // Raw body is kept so a re-registration can be signed with the existing key
+    const rawRequestBody = await c.req.text();
+
+    let body;
     try {
-      const body = await c.req.json();
-      const validatedData = deviceRegistrationSchema.parse(body);
-      
-      // Generate device-specific key seed
-      const keySeed = await this.security.generateKeySeed(validatedData.device_id);
-      const deviceToken = await this.security.generateDeviceToken(validatedData.device_id);
-      
-      // Store device information
-      const deviceInfo: DeviceInfo = {
-        device_id: validatedData.device_id,
-        key_seed: keySeed,
-        registered_at: new Date().toISOString(),
-        last_seen: new Date().toISOString(),
-        request_count: 0,
-        device_info: validatedData.device_info
-      };
-      
-      await this.security.storeDeviceInfo(deviceInfo);
-      
-      const response: DeviceRegistrationResponse = {
-        success: true,
-        data: {
-          key_seed: keySeed,
-          expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
-          device_token: deviceToken
-        }
-      };
-      
-      return c.json(response);
+      body = JSON.parse(rawRequestBody);
     } catch (error) {
-      console.error('Device registration error:', error);
-      
-      if (error instanceof z.ZodError) {
-        return c.json({
-          success: false,
-          error: 'Invalid request data',
-          details: error.errors
-        }, 400);
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const validatedData = deviceRegistrationSchema.parse(body);
+
+    // Refuse to silently overwrite a still-valid registration. Checked before
+    // the attestation, so a refused request does not use up its challenge.
+    const existingDevice = await this.security.getDeviceInfo(validatedData.device_id);
+    if (existingDevice && this.security.isDeviceKeyValid(existingDevice)) {
+      await this.verifyExistingDeviceProof(c, validatedData.device_id, rawRequestBody);
+    }
+
+    await this.attestation.verifyRegistration(
+      validatedData.attestation,
+      validatedData.device_id,
+      validatedData.device_info.platform
+    );
+    
+    // Generate device-specific key seed
+    const keySeed = await this.security.generateKeySeed(validatedData.device_id);
+    const issuedToken = await this.security.generateDeviceToken(validatedData.device_id);
+    const expiresAt = new Date(Date.now() + DEVICE_KEY_TTL_SECONDS * 1000).toISOString();
+
+    // The replaced registration's token must not outlive it
+    if (existingDevice?.token_id && existingDevice.token_expires_at) {
+      await this.security.revokeDeviceToken({
+        sub: existingDevice.device_id,
+        jti: existingDevice.token_id,
+        exp: existingDevice.token_expires_at
+      });
+    }
+    
+    // Store device information
+    const deviceInfo: DeviceInfo = {
+      device_id: validatedData.device_id,
+      key_seed: keySeed,
+      key_expires_at: expiresAt,
+      token_id: issuedToken.payload.jti,
+      token_expires_at: issuedToken.payload.exp,
+      registered_at: new Date().toISOString(),
+      last_seen: new Date().toISOString(),
+      request_count: 0,
+      device_info: validatedData.device_info
+    };
+    
+    await this.security.storeDeviceInfo(deviceInfo);
+    this.stats.recordRegistration();
+    
+    const response: DeviceRegistrationResponse = {
+      success: true,
+      data: {
+        key_seed: keySeed,
+        expires_at: expiresAt,
+        device_token: issuedToken.token
       }
-      
-      return c.json({
-        success: false,
-        error: 'Registration failed'
-      }, 500);
+    };
+    
+    return c.json(response);
+  }
+
+  /**
+   * Re-registering an active device requires x-timestamp / x-nonce / x-signature
+   * headers signed with the device's current key over the registration body
+   */
+  private async verifyExistingDeviceProof(
+    c: Context,
+    deviceId: string,
+    rawRequestBody: string
+  ): Promise<void> {
+    const timestamp = c.req.header('x-timestamp');
+    const signature = c.req.header('x-signature');
+    const nonce = c.req.header('x-nonce');
+
+    if (!timestamp || !signature) {
+      throw new ConflictError(
+        'Device is already registered; sign the request with the existing key to re-register',
+        'DEVICE_ALREADY_REGISTERED'
+      );
+    }
+
+    if (nonce === undefined ? this.env.NONCE_REQUIRED === 'true' : !NONCE_PATTERN.test(nonce)) {
+      throw new AuthenticationError('Missing or malformed x-nonce header', 'NONCE_MISSING');
+    }
+
+    const isValidSignature = await this.security.verifySignature(
+      deviceId,
+      timestamp,
+      signature,
+      rawRequestBody,
+      {
+        allowPreviousKey: false,
+        nonce,
+        version: this.security.resolveSignatureVersion(c.req.header('x-signature-version')),
+        request: { method: c.req.method, url: c.req.url, headers: c.req.header() }
+      }
+    );
+
+    if (!isValidSignature) {
+      throw new AuthenticationError('Invalid proof of existing device key');
+    }
+
+    if (nonce !== undefined) {
+      await this.security.consumeNonce(deviceId, nonce);
     }
   }
 
   /**
-   * Expense parsing endpoint
+   * Device key rotation endpoint
    */
-  async parseExpense(c: Context): Promise<Response> {
-    try {
-      // Extract and validate headers
-      const deviceId = c.req.header('x-device-id');
-      const timestamp = c.req.header('x-timestamp');
-      const signature = c.req.header('x-signature');
-      
-      if (!deviceId || !timestamp || !signature) {
-        throw new AuthenticationError('Missing required headers');
+  async rotateDeviceKey(c: Context): Promise<Response> {
+    // Signature verified by requireSignature (current key only)
+    const deviceId = c.get('deviceId');
+
+    const deviceInfo = await this.security.getDeviceInfo(deviceId);
+    if (!deviceInfo) {
+      throw new AuthenticationError('Device not registered');
+    }
+
+    const rotated = await this.security.rotateDeviceCredentials(deviceInfo);
+
+    const response: DeviceKeyRotationResponse = {
+      success: true,
+      data: {
+        key_seed: rotated.keySeed,
+        expires_at: rotated.deviceInfo.key_expires_at!,
+        device_token: rotated.deviceToken,
+        previous_credentials_valid_until: rotated.previousValidUntil
       }
+    };
 
-      // Get raw request body text first (before parsing)
-      const rawRequestBody = await c.req.text();
+    return c.json(response);
+  }
 
-      // Parse the JSON for validation
-      let body;
-      try {
-        body = JSON.parse(rawRequestBody);
-      } catch (error) {
-        throw new ValidationError('Invalid JSON in request body');
+  /**
+   * Device deletion endpoint: erases all data held for the device
+   */
+  async deleteDevice(c: Context): Promise<Response> {
+    // Signature verified by requireSignature
+    const deviceId = c.get('deviceId');
+
+    // Buckets first: resetting them again is harmless if the purge below fails and is retried
+    const buckets = await this.rateLimiter.resetDevice(deviceId);
+    const purged = await this.security.purgeDeviceData(deviceId);
+    for (const key of buckets.reset) {
+      purged.push({ namespace: 'RATE_LIMITER', key });
+    }
+    // The pool snapshot may still hold the device's shared corrections
+    await this.feedback.invalidateSharedPool();
+
+    const response: DeviceDeletionResponse = {
+      success: true,
+      data: {
+        device_id: deviceId,
+        purged_at: new Date().toISOString(),
+        purged,
+        failed: buckets.failed.map(key => ({ namespace: 'RATE_LIMITER', key }))
       }
+    };
 
-      const validatedData = expenseParseSchema.parse(body);
+    return c.json(response);
+  }
+
+  /**
+   * Expense parsing endpoint
+   */
+  async parseExpense(c: Context): Promise<Response> {
+    try {
+      // Signature verified by requireSignature
+      const deviceId = c.get('deviceId');
+      this.stats.recordParseRequest();
 
-      // Check rate limiting
-      await this.security.checkRateLimit(deviceId);
+      const contentType = c.req.header('content-type') || '';
+      let body;
 
-      // Verify request signature using the raw request body
-      const isValidSignature = await this.security.verifySignature(
-        deviceId,
-        timestamp,
-        signature,
-        rawRequestBody
-      );
-      
-      if (!isValidSignature) {
-        throw new AuthenticationError('Invalid request signature');
+      if (contentType.startsWith('multipart/form-data')) {
+        body = await this.parseMultipartBody(await c.req.arrayBuffer(), contentType);
+      } else {
+        // Parse the JSON for validation
+        try {
+          body = JSON.parse(await c.req.text());
+        } catch (error) {
+          throw new ValidationError('Invalid JSON in request body');
+        }
       }
+
+      const validatedData = this.prepareParseRequest(expenseParseSchema.parse(body));
+
+      // Request rate is limited by the rateLimit middleware; check token quota
+      await this.quota.assertWithinQuota(deviceId);
       
       // Update device last seen
       await this.security.updateDeviceLastSeen(deviceId);
       
-      // Parse expense using ARK API
-      const parseResult = await this.openai.parseExpenseText(validatedData);
-      
+      // Parse expense using ARK API; tokens count even if parsing fails afterwards
+      const options = await this.parseOptions(deviceId);
+
+      if (validatedData.mode === 'multi') {
+        let transactions;
+        try {
+          transactions = await this.openai.parseExpenseList(validatedData, options);
+        } finally {
+          await this.quota.consume(deviceId, this.openai.tokensUsed);
+        }
+        // All transactions come from one provider call; its per-provider counts are recorded by the client
+        this.stats.recordParseSuccess(transactions[0]?.extensions.source);
+
+        const homeCurrency = validatedData.context?.home_currency;
+        const listResponse: ExpenseParseListResponse = {
+          success: true,
+          data: {
+            mode: 'multi',
+            transactions: await Promise.all(transactions.map(transaction => this.fx.convertResult(transaction, homeCurrency))),
+            count: transactions.length
+          }
+        };
+
+        return c.json(listResponse);
+      }
+
+      let parseResult;
+      try {
+        parseResult = await this.openai.parseExpenseText(validatedData, options);
+      } finally {
+        await this.quota.consume(deviceId, this.openai.tokensUsed);
+      }
+      this.stats.recordParseSuccess(parseResult.extensions?.source);
+
       const response: ExpenseParseResponse = {
         success: true,
-        data: parseResult
+        data: await this.fx.convertResult(parseResult, validatedData.context?.home_currency)
       };
       
       return c.json(response);
     } catch (error) {
-      console.error('Expense parsing error:', error);
-      
-      if (error instanceof z.ZodError) {
-        return c.json({
+      this.stats.recordParseFailure(this.errorCode(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Batch expense parsing endpoint
+   */
+  async parseExpensesBatch(c: Context): Promise<Response> {
+    // Signature verified by requireSignature
+    const deviceId = c.get('deviceId');
+
+    let body;
+    try {
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const validatedData = expenseBatchParseSchema.parse(body);
+
+    const maxItems = parseInt(this.env.BATCH_MAX_ITEMS || '50');
+    if (validatedData.items.length > maxItems) {
+      throw new ValidationError(`Batch too large: at most ${maxItems} items per request`);
+    }
+
+    const results: ExpenseBatchParseItemResult[] = new Array(validatedData.items.length);
+    const items: ExpenseParseRequest[] = [];
+    const itemIndexes: number[] = []; // batch index of each entry in `items`
+    validatedData.items.forEach((raw, index) => {
+      try {
+        const item = this.prepareParseRequest(expenseParseSchema.parse(raw));
+        if (item.mode === 'multi') {
+          throw new ValidationError('Batch items cannot use mode "multi"; send them to /api/v1/parse/expense');
+        }
+        items.push(item);
+        itemIndexes.push(index);
+      } catch (error) {
+        if (!(error instanceof z.ZodError || error instanceof ValidationError)) {
+          throw error;
+        }
+        results[index] = {
+          index,
           success: false,
-          error: 'Invalid request data',
-          details: error.errors
-        }, 400);
+          error: error instanceof z.ZodError ? 'Invalid request data' : error.message,
+          code: 'VALIDATION_ERROR',
+          ...(error instanceof z.ZodError ? { details: error.errors } : {})
+        };
       }
-      
-      if (error instanceof AuthenticationError) {
-        return c.json({
-          success: false,
-          error: error.message
-        }, error.statusCode as any);
+    });
+
+    // A batch counts as one parse request (rateLimit middleware), plus its
+    // valid items against the hourly batch bucket
+    const batchLimit = await this.rateLimiter.consume('batch', deviceId, items.length);
+    for (const [header, value] of Object.entries(rateLimitHeaders(batchLimit))) {
+      c.header(header, value);
+    }
+    if (!batchLimit.allowed) {
+      throw new RateLimitError(
+        `Batch rate limit exceeded: ${batchLimit.limit} items per ${batchLimit.window_seconds} seconds`,
+        batchLimit.retry_after_seconds
+      );
+    }
+    // Update device last seen
+    await this.security.updateDeviceLastSeen(deviceId);
+
+    const concurrency = parseInt(this.env.BATCH_CONCURRENCY || '4');
+    if (items.length > 0) {
+      await this.quota.assertWithinQuota(deviceId);
+      const options = await this.parseOptions(deviceId);
+      let parsed;
+      try {
+        parsed = await this.openai.parseExpenseBatch(items, concurrency, options);
+      } finally {
+        await this.quota.consume(deviceId, this.openai.tokensUsed);
+      }
+      for (const result of parsed) {
+        const index = itemIndexes[result.index]!;
+        if (result.data) {
+          result.data = await this.fx.convertResult(result.data, items[result.index]!.context?.home_currency);
+        }
+        results[index] = { ...result, index };
       }
-      
-      return c.json({
-        success: false,
-        error: 'Parsing failed'
-      }, 500);
     }
+    const succeeded = results.filter(result => result.success).length;
+
+    for (const result of results) {
+      this.stats.recordParseRequest();
+      if (result.success && result.data) {
+        this.stats.recordParseSuccess(result.data.extensions.source);
+      } else {
+        this.stats.recordParseFailure(result.code || 'INTERNAL_ERROR');
+      }
+    }
+
+    const response: ExpenseBatchParseResponse = {
+      success: true,
+      data: {
+        results,
+        summary: {
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded
+        }
+      }
+    };
+
+    return c.json(response);
   }
 
   /**
-   * Get device information (for debugging)
+   * Bank statement import: the raw file (CSV, OFX, QIF or CAMT.053) is the
+   * request body and options are query parameters. With ?enrich=true,
+   * descriptions the merchant dictionary does not recognize are sent to the
+   * model for a merchant and category; if that fails the transactions are
+   * returned without it.
    */
-  async getDeviceInfo(c: Context): Promise<Response> {
+  async importStatement(c: Context): Promise<Response> {
+    // Signature verified by requireSignature
+    const deviceId = c.get('deviceId');
+    const query = statementImportSchema.parse(c.req.query());
+
+    const body = await c.req.text();
+    if (new TextEncoder().encode(body).length > MAX_STATEMENT_BYTES) {
+      throw new ValidationError(`Statement too large: at most ${MAX_STATEMENT_BYTES} bytes`);
+    }
+
+    const parsed = parseStatement(body, {
+      format: query.format,
+      preset: query.preset,
+      dateOrder: query.date_format,
+      currency: query.currency
+    });
+
+    await this.security.updateDeviceLastSeen(deviceId);
+
+    const [categories, merchants] = await Promise.all([
+      this.categories.forDevice(deviceId),
+      this.merchants.index()
+    ]);
+    let transactions = normalizeStatement(parsed, { timezone: query.timezone }, merchants, categories, query.locale);
+
+    let enriched = 0;
+    let enrichmentError: string | undefined;
+    const ambiguous = Array.from(new Set(
+      transactions
+        .filter(transaction => transaction.merchant_id === null && transaction.merchant_raw)
+        .map(transaction => transaction.merchant_raw!)
+    ));
+    if (query.enrich && ambiguous.length > 0) {
+      const descriptions = ambiguous.slice(0, MAX_ENRICHED_DESCRIPTIONS);
+      const byDescription = new Map<string, EnrichmentSuggestion>();
+      try {
+        // One chunk per call, each charged before the quota is checked for the next;
+        // suggestions of the chunks done so far are kept when a later one fails
+        for (let start = 0; start < descriptions.length; start += ENRICHMENT_CHUNK_SIZE) {
+          await this.quota.assertWithinQuota(deviceId);
+          const chunk = descriptions.slice(start, start + ENRICHMENT_CHUNK_SIZE);
+          const tokensBefore = this.openai.tokensUsed;
+          try {
+            const suggestions = await this.openai.enrichDescriptions(chunk, categories);
+            chunk.forEach((description, index) => {
+              const suggestion = suggestions[index];
+              if (suggestion) {
+                byDescription.set(description, suggestion);
+              }
+            });
+          } finally {
+            await this.quota.consume(deviceId, this.openai.tokensUsed - tokensBefore);
+          }
+        }
+      } catch (error) {
+        enrichmentError = error instanceof APIError ? error.code : 'AI_API_ERROR';
+      }
+
+      transactions = transactions.map(transaction => {
+        const suggestion = transaction.merchant_id === null && transaction.merchant_raw
+          ? byDescription.get(transaction.merchant_raw)
+          : undefined;
+        if (!suggestion) {
+          return transaction;
+        }
+        enriched++;
+        return applyEnrichment(transaction, suggestion, merchants, categories, query.locale);
+      });
+    }
+
+    const response: StatementImportResponse = {
+      success: true,
+      data: {
+        format: parsed.format,
+        preset: parsed.preset,
+        transactions: await Promise.all(transactions.map(transaction => this.fx.convertResult(transaction, query.home_currency))),
+        count: transactions.length,
+        skipped: parsed.skipped,
+        enriched,
+        ...(enrichmentError ? { enrichment_error: enrichmentError } : {})
+      }
+    };
+
+    return c.json(response);
+  }
+
+  /**
+   * Parse correction feedback: stored for the device (and the shared pool
+   * when opted in) and counted in the per-field accuracy statistics
+   */
+  async submitFeedback(c: Context): Promise<Response> {
+    // Signature verified by requireSignature
+    const deviceId = c.get('deviceId');
+
+    let body;
     try {
-      const deviceId = c.req.param('deviceId');
-      
-      if (!deviceId) {
-        throw new ValidationError('Device ID is required');
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const feedback: ParseFeedbackRequest = parseFeedbackSchema.parse(body);
+    const outcome = await this.feedback.record(
+      deviceId,
+      feedback.text,
+      feedback.original,
+      feedback.corrected,
+      feedback.share ?? false
+    );
+    // Only versions in the registry are credited, so clients cannot add arbitrary stats keys
+    const registry = feedback.prompt_version ? await this.prompts.getRegistry() : null;
+    const promptVersion = registry?.versions.some(version => version.id === feedback.prompt_version)
+      ? feedback.prompt_version
+      : undefined;
+    this.stats.recordFeedback(outcome, promptVersion);
+
+    return c.json({
+      success: true,
+      data: {
+        corrected_fields: Object.keys(outcome).filter(field => !outcome[field]),
+        shared: feedback.share ?? false
       }
-      
-      const deviceInfo = await this.security.getDeviceInfo(deviceId);
-      
-      if (!deviceInfo) {
-        return c.json({
-          success: false,
-          error: 'Device not found'
-        }, 404);
+    });
+  }
+
+  /**
+   * Read a multipart/form-data parse request (fields: text, mode, context, image)
+   * into the same shape as the JSON body
+   */
+  private async parseMultipartBody(rawBody: ArrayBuffer, contentType: string): Promise<unknown> {
+    let form: FormData;
+    try {
+      form = await new Response(rawBody, { headers: { 'content-type': contentType } }).formData();
+    } catch (error) {
+      throw new ValidationError('Invalid multipart request body');
+    }
+
+    const body: { [key: string]: unknown } = {};
+
+    const text = form.get('text');
+    if (typeof text === 'string') {
+      body.text = text;
+    }
+
+    const mode = form.get('mode');
+    if (typeof mode === 'string') {
+      body.mode = mode;
+    }
+
+    const context = form.get('context');
+    if (typeof context === 'string' && context.length > 0) {
+      try {
+        body.context = JSON.parse(context);
+      } catch (error) {
+        throw new ValidationError('Invalid JSON in context field');
       }
-      
-      // Remove sensitive information
-      const safeDeviceInfo = {
-        device_id: deviceInfo.device_id,
-        registered_at: deviceInfo.registered_at,
-        last_seen: deviceInfo.last_seen,
-        request_count: deviceInfo.request_count,
-        device_info: deviceInfo.device_info
+    }
+
+    // workers-types declares string values only, but file parts arrive as File
+    const image = form.get('image') as File | string | null;
+    if (image && typeof image !== 'string') {
+      body.image = {
+        data: bytesToBase64(new Uint8Array(await image.arrayBuffer())),
+        mime_type: image.type || undefined
       };
-      
-      return c.json({
-        success: true,
-        data: safeDeviceInfo
-      });
-    } catch (error) {
-      console.error('Get device info error:', error);
-      
-      return c.json({
-        success: false,
-        error: 'Failed to get device information'
-      }, 500);
     }
+
+    return body;
+  }
+
+  /**
+   * Categories, merchant dictionary, past corrections and prompt version used
+   * when parsing for a device
+   */
+  private async parseOptions(deviceId: string): Promise<ParseOptions> {
+    const [categories, merchants, feedback, assignment] = await Promise.all([
+      this.categories.forDevice(deviceId),
+      this.merchants.index(),
+      this.feedback.examplesFor(deviceId),
+      this.prompts.forDevice(deviceId)
+    ]);
+    return { categories, merchants, feedback, prompt: assignment.prompt };
+  }
+
+  /**
+   * Validate an attached receipt image and record its format in the context
+   */
+  private prepareParseRequest(data: z.infer<typeof expenseParseSchema>): ExpenseParseRequest {
+    if (!data.image) {
+      return data;
+    }
+
+    const maxBytes = parseInt(this.env.MAX_IMAGE_BYTES || String(DEFAULT_MAX_IMAGE_BYTES));
+    const image = validateReceiptImage(data.image.data, data.image.mime_type, maxBytes);
+
+    return {
+      ...data,
+      image: {
+        data: image.data,
+        mime_type: image.mime_type
+      },
+      context: {
+        ...data.context,
+        image_metadata: {
+          ...data.context?.image_metadata,
+          format: data.context?.image_metadata?.format ?? image.format
+        }
+      }
+    };
+  }
+
+  /**
+   * Get device information (signed by the device itself, or with an admin credential)
+   */
+  async getDeviceInfo(c: Context): Promise<Response> {
+    const deviceId = c.req.param('deviceId');
+    
+    if (!deviceId) {
+      throw new ValidationError('Device ID is required');
+    }
+    
+    const deviceInfo = await this.security.getDeviceInfo(deviceId);
+    
+    if (!deviceInfo) {
+      throw new NotFoundError('Device not found', 'DEVICE_NOT_FOUND');
+    }
+    
+    // Remove sensitive information
+    const safeDeviceInfo = {
+      device_id: deviceInfo.device_id,
+      registered_at: deviceInfo.registered_at,
+      last_seen: deviceInfo.last_seen,
+      request_count: deviceInfo.request_count,
+      device_info: deviceInfo.device_info,
+      token_quota: await this.quota.getUsage(deviceId)
+    };
+    
+    return c.json({
+      success: true,
+      data: safeDeviceInfo
+    });
   }
 
   /**
    * API usage statistics
    */
   async getStats(c: Context): Promise<Response> {
+    const query = statsQuerySchema.parse(c.req.query());
+
+    // Default to the last 7 days
+    const to = query.to ?? formatDate(new Date());
+    const from = query.from ?? formatDate(new Date(Date.parse(`${to}T00:00:00Z`) - 6 * 86400 * 1000));
+
+    const rangeDays = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (86400 * 1000) + 1;
+    if (!(rangeDays >= 1)) {
+      throw new ValidationError('"from" must be on or before "to"');
+    }
+    if (rangeDays > MAX_STATS_RANGE_DAYS) {
+      throw new ValidationError(`Date range too large: at most ${MAX_STATS_RANGE_DAYS} days`);
+    }
+
+    const { buckets, totals } = await this.stats.query(from, to, query.granularity);
+
+    return c.json({
+      success: true,
+      data: {
+        timestamp: new Date().toISOString(),
+        environment: this.env.ENVIRONMENT,
+        version: this.env.API_VERSION,
+        from,
+        to,
+        granularity: query.granularity,
+        totals,
+        buckets
+      }
+    });
+  }
+
+  /**
+   * Category taxonomy with names in ?locale= (English by default)
+   */
+  async getCategories(c: Context): Promise<Response> {
+    const locale = c.req.query('locale');
+    const taxonomy = await this.categories.getTaxonomy();
+
+    return c.json({
+      success: true,
+      data: {
+        categories: taxonomy.map(category => ({
+          ...category,
+          name: localizedName(category, locale)
+        }))
+      }
+    });
+  }
+
+  /**
+   * Replace the category taxonomy (admin only)
+   */
+  async updateTaxonomy(c: Context): Promise<Response> {
+    let body;
     try {
-      // This is a simple implementation - in production you might want more sophisticated analytics
-      return c.json({
-        success: true,
-        data: {
-          timestamp: new Date().toISOString(),
-          environment: this.env.ENVIRONMENT,
-          version: this.env.API_VERSION,
-          uptime: 'N/A', // Cloudflare Workers don't have traditional uptime
-          message: 'Statistics endpoint - implement detailed analytics as needed'
-        }
-      });
+      body = JSON.parse(await c.req.text());
     } catch (error) {
-      console.error('Stats error:', error);
-      
-      return c.json({
-        success: false,
-        error: 'Failed to get statistics'
-      }, 500);
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const { categories } = taxonomySchema.parse(body);
+    await this.categories.setTaxonomy(categories);
+
+    return c.json({
+      success: true,
+      data: { categories }
+    });
+  }
+
+  /**
+   * A device's custom categories
+   */
+  async getDeviceCategories(c: Context): Promise<Response> {
+    // Signature verified by requireSignature
+    const deviceId = c.get('deviceId');
+
+    const response: DeviceCategoriesResponse = {
+      success: true,
+      data: {
+        device_id: deviceId,
+        categories: await this.categories.getDeviceCategories(deviceId)
+      }
+    };
+
+    return c.json(response);
+  }
+
+  /**
+   * Replace a device's custom categories (an empty list removes them)
+   */
+  async updateDeviceCategories(c: Context): Promise<Response> {
+    // Signature verified by requireSignature
+    const deviceId = c.get('deviceId');
+
+    let body;
+    try {
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const { categories } = deviceCategoriesSchema.parse(body);
+    await this.categories.setDeviceCategories(deviceId, categories);
+
+    const response: DeviceCategoriesResponse = {
+      success: true,
+      data: {
+        device_id: deviceId,
+        categories
+      }
+    };
+
+    return c.json(response);
+  }
+
+  /**
+   * Merchant dictionary (admin only)
+   */
+  async listMerchants(c: Context): Promise<Response> {
+    const merchants = await this.merchants.list();
+
+    return c.json({
+      success: true,
+      data: { merchants }
+    });
+  }
+
+  /**
+   * Add a merchant to the dictionary (admin only)
+   */
+  async createMerchant(c: Context): Promise<Response> {
+    let body;
+    try {
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const merchant = await this.merchants.create(merchantSchema.parse(body));
+
+    return c.json({
+      success: true,
+      data: { merchant }
+    }, 201);
+  }
+
+  /**
+   * Replace a merchant's name, aliases, default category and logo (admin only)
+   */
+  async updateMerchant(c: Context): Promise<Response> {
+    let body;
+    try {
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    // The ID comes from the path
+    const merchant = await this.merchants.update(
+      merchantSchema.parse({ ...body, id: c.req.param('merchantId') })
+    );
+
+    return c.json({
+      success: true,
+      data: { merchant }
+    });
+  }
+
+  /**
+   * Remove a merchant from the dictionary (admin only)
+   */
+  async deleteMerchant(c: Context): Promise<Response> {
+    const merchantId = c.req.param('merchantId')!;
+    await this.merchants.delete(merchantId);
+
+    return c.json({
+      success: true,
+      data: { merchant_id: merchantId }
+    });
+  }
+
+  /**
+   * Bulk merchant import (admin only): upserts by ID, or replaces the
+   * dictionary with "replace": true
+   */
+  async importMerchants(c: Context): Promise<Response> {
+    let body;
+    try {
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const { merchants, replace } = merchantImportSchema.parse(body);
+    const summary = await this.merchants.import(merchants, replace);
+
+    return c.json({
+      success: true,
+      data: summary
+    });
+  }
+
+  /**
+   * Prompt registry: versions, active version and experiment (admin only)
+   */
+  async getPrompts(c: Context): Promise<Response> {
+    const registry = await this.prompts.getRegistry();
+
+    return c.json({
+      success: true,
+      data: registry
+    });
+  }
+
+  /**
+   * Add a prompt version (admin only)
+   */
+  async createPromptVersion(c: Context): Promise<Response> {
+    let body;
+    try {
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const { id, system } = promptVersionSchema.parse(body);
+    const version = await this.prompts.addVersion(id, system);
+
+    return c.json({
+      success: true,
+      data: version
+    }, 201);
+  }
+
+  /**
+   * Set the active prompt version and the A/B experiment (admin only)
+   */
+  async updatePromptRollout(c: Context): Promise<Response> {
+    let body;
+    try {
+      body = JSON.parse(await c.req.text());
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+
+    const { active, experiment } = promptRolloutSchema.parse(body);
+    const registry = await this.prompts.setRollout(active, experiment);
+
+    return c.json({
+      success: true,
+      data: {
+        active: registry.active,
+        experiment: registry.experiment
+      }
+    });
+  }
+
+  /**
+   * Exchange rates upload (admin only): CSV with a date,currency,rate header
+   * and ?base=CODE, or JSON { base, rates: [{ date, currency, rate }] }
+   */
+  async uploadFxRates(c: Context): Promise<Response> {
+    const contentType = c.req.header('content-type') || '';
+    const body = await c.req.text();
+
+    let base = c.req.query('base');
+    if (contentType.includes('json')) {
+      try {
+        base = (JSON.parse(body) as { base?: string }).base ?? base;
+      } catch (error) {
+        throw new ValidationError('Invalid JSON in request body');
+      }
+    }
+    base = base?.toUpperCase();
+    if (!base || !isKnownCurrency(base)) {
+      throw new ValidationError('A known ISO 4217 base currency is required');
+    }
+
+    const summary = await this.fx.importRates(base, parseRatesUpload(body, contentType));
+
+    return c.json({
+      success: true,
+      data: summary
+    });
+  }
+
+  /**
+   * Error code recorded in usage statistics
+   */
+  private errorCode(error: unknown): string {
+    if (error instanceof z.ZodError) {
+      return 'VALIDATION_ERROR';
     }
+    return error instanceof APIError ? error.code : 'INTERNAL_ERROR';
   }
 
   /**
@@ -276,7 +1173,7 @@ export class APIHandlers {
       headers: {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-device-id, x-timestamp, x-signature, x-device-token',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-device-id, x-timestamp, x-nonce, x-signature, x-signature-version, x-device-token, x-admin-key',
         'Access-Control-Max-Age': '86400'
       }
     });
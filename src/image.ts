@@ -0,0 +1,115 @@
+import { ValidationError } from './types';
+
+// Formats accepted by OpenAI-compatible vision endpoints
+export const SUPPORTED_IMAGE_FORMATS: { [mimeType: string]: string } = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5 MB
+
+export interface ReceiptImage {
+  mime_type: string;
+  format: string;
+  data: string; // base64, without data URL prefix
+  size: number;
+}
+
+/**
+ * Validate a base64 encoded receipt image and normalize it for the AI provider
+ */
+export function validateReceiptImage(
+  data: string,
+  declaredMimeType: string | undefined,
+  maxBytes: number
+): ReceiptImage {
+  let base64 = data.trim();
+  let mimeType = declaredMimeType?.toLowerCase();
+
+  // Accept data URLs as well as bare base64
+  const dataUrlMatch = base64.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (dataUrlMatch) {
+    mimeType = mimeType || dataUrlMatch[1]!.toLowerCase();
+    base64 = dataUrlMatch[2]!;
+  }
+  base64 = base64.replace(/\s/g, '');
+
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(base64);
+  } catch (error) {
+    throw new ValidationError('Image data is not valid base64');
+  }
+
+  if (bytes.length === 0) {
+    throw new ValidationError('Image data is empty');
+  }
+
+  if (bytes.length > maxBytes) {
+    throw new ValidationError(`Image too large: maximum size is ${maxBytes} bytes`);
+  }
+
+  const detectedMimeType = detectImageMimeType(bytes);
+  if (!detectedMimeType) {
+    throw new ValidationError(
+      `Unsupported image format. Supported formats: ${Object.values(SUPPORTED_IMAGE_FORMATS).join(', ')}`
+    );
+  }
+
+  if (mimeType && mimeType !== detectedMimeType) {
+    throw new ValidationError(`Image content does not match declared type ${mimeType}`);
+  }
+
+  return {
+    mime_type: detectedMimeType,
+    format: SUPPORTED_IMAGE_FORMATS[detectedMimeType]!,
+    data: base64,
+    size: bytes.length
+  };
+}
+
+/**
+ * Encode raw bytes (e.g. a multipart file upload) as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Sniff the image type from its magic bytes
+ */
+function detectImageMimeType(bytes: Uint8Array): string | null {
+  const startsWith = (signature: number[], offset: number = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) {
+    return 'image/gif';
+  }
+  // RIFF....WEBP
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  return null;
+}
@@ -2,8 +2,17 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { prettyJSON } from 'hono/pretty-json';
-import { Env } from './types';
+import { Env, NotFoundError } from './types';
 import { APIHandlers } from './handlers';
+import { ERROR_CATALOG, handleError } from './errors';
+import {
+  requireDeviceToken,
+  requireSignature,
+  requireSignatureOrAdmin,
+  requireAdmin,
+  requireEnabled,
+  rateLimit
+} from './middleware';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -13,24 +22,29 @@ app.use('*', prettyJSON());
 app.use('*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'x-device-id', 'x-timestamp', 'x-signature', 'x-device-token'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-device-id', 'x-timestamp', 'x-nonce', 'x-signature', 'x-signature-version', 'x-device-token', 'x-admin-key'],
   maxAge: 86400
 }));
 
-// Error handling middleware
-app.onError((err, c) => {
-  console.error('Unhandled error:', err);
-  return c.json({
-    success: false,
-    error: 'Internal server error',
-    message: err.message
-  }, 500);
+// Every response carries a request ID, also reported in error envelopes
+app.use('*', async (c, next) => {
+  const requestId = c.req.header('cf-ray') ?? crypto.randomUUID();
+  c.set('requestId', requestId);
+  c.header('x-request-id', requestId);
+  await next();
 });
 
+// Error handling middleware: maps APIError codes to the error envelope
+app.onError(handleError);
+
 // Initialize handlers
 app.use('*', async (c, next) => {
-  c.set('handlers', new APIHandlers(c.env));
+  const handlers = new APIHandlers(c.env);
+  c.set('handlers', handlers);
   await next();
+
+  // Persist usage statistics without delaying the response
+  c.executionCtx.waitUntil(handlers.flushStats());
 });
 
 // Routes
@@ -43,10 +57,31 @@ app.get('/', (c) => {
     timestamp: new Date().toISOString(),
     endpoints: {
       health: '/api/v1/health',
+      challenge: '/api/v1/device/challenge',
       register: '/api/v1/device/register',
+      rotate: '/api/v1/device/:deviceId/rotate',
       parse: '/api/v1/parse/expense',
+      parse_batch: '/api/v1/parse/expenses/batch',
+      parse_feedback: '/api/v1/parse/feedback',
+      import_statement: '/api/v1/import/statement',
       device: '/api/v1/device/:deviceId',
-      stats: '/api/v1/stats'
+      device_categories: '/api/v1/device/:deviceId/categories',
+      categories: '/api/v1/categories',
+      merchants: '/api/v1/merchants',
+      prompts: '/api/v1/prompts',
+      stats: '/api/v1/stats',
+      fx_rates: '/api/v1/fx/rates',
+      errors: '/api/v1/errors'
+    }
+  });
+});
+
+// Error code catalog
+app.get('/api/v1/errors', (c) => {
+  return c.json({
+    success: true,
+    data: {
+      codes: ERROR_CATALOG
     }
   });
 });
@@ -58,29 +93,142 @@ app.get('/api/v1/health', async (c) => {
 });
 
 // Device registration
-app.post('/api/v1/device/register', async (c) => {
+app.post('/api/v1/device/register', rateLimit('register', c => c.req.header('cf-connecting-ip') || 'unknown'), async (c) => {
   const handlers = c.get('handlers') as APIHandlers;
   return handlers.registerDevice(c);
 });
 
+// Registration challenge (must precede /api/v1/device/:deviceId)
+app.get('/api/v1/device/challenge', async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.getRegistrationChallenge(c);
+});
+
+// Device key rotation
+app.post('/api/v1/device/:deviceId/rotate', requireSignature({ allowPreviousKey: false }), requireDeviceToken(), rateLimit('device', c => c.get('deviceId')), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.rotateDeviceKey(c);
+});
+
+// Custom categories of a device
+app.get('/api/v1/device/:deviceId/categories', requireSignature(), requireDeviceToken(), rateLimit('device', c => c.get('deviceId')), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.getDeviceCategories(c);
+});
+
+app.put('/api/v1/device/:deviceId/categories', requireSignature(), requireDeviceToken(), rateLimit('device', c => c.get('deviceId')), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.updateDeviceCategories(c);
+});
+
 // Expense parsing
-app.post('/api/v1/parse/expense', async (c) => {
+app.post('/api/v1/parse/expense', requireSignature(), requireDeviceToken(), rateLimit('parse', c => c.get('deviceId')), async (c) => {
   const handlers = c.get('handlers') as APIHandlers;
   return handlers.parseExpense(c);
 });
 
-// Get device information
-app.get('/api/v1/device/:deviceId', async (c) => {
+// Batch expense parsing
+app.post('/api/v1/parse/expenses/batch', requireSignature(), requireDeviceToken(), rateLimit('parse', c => c.get('deviceId')), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.parseExpensesBatch(c);
+});
+
+// Parse correction feedback
+app.post('/api/v1/parse/feedback', requireSignature(), requireDeviceToken(), rateLimit('device', c => c.get('deviceId')), async (c) => {
   const handlers = c.get('handlers') as APIHandlers;
-  return handlers.getDeviceInfo(c);
+  return handlers.submitFeedback(c);
 });
 
-// API statistics
-app.get('/api/v1/stats', async (c) => {
+// Bank statement import
+app.post('/api/v1/import/statement', requireSignature(), requireDeviceToken(), rateLimit('parse', c => c.get('deviceId')), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.importStatement(c);
+});
+
+// Get device information (the device itself or an admin)
+app.get(
+  '/api/v1/device/:deviceId',
+  requireEnabled(env => env.DEVICE_INFO_ENDPOINT_ENABLED !== 'false'),
+  requireSignatureOrAdmin(),
+  requireDeviceToken(),
+  rateLimit('device', c => (c.get('isAdmin') ? null : c.get('deviceId'))),
+  async (c) => {
+    const handlers = c.get('handlers') as APIHandlers;
+    return handlers.getDeviceInfo(c);
+  }
+);
+
+// Delete device and erase its data
+app.delete('/api/v1/device/:deviceId', requireSignature(), requireDeviceToken(), rateLimit('device', c => c.get('deviceId')), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.deleteDevice(c);
+});
+
+// API statistics (admin only)
+app.get('/api/v1/stats', requireAdmin(), async (c) => {
   const handlers = c.get('handlers') as APIHandlers;
   return handlers.getStats(c);
 });
 
+// Category taxonomy
+app.get('/api/v1/categories', async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.getCategories(c);
+});
+
+app.put('/api/v1/categories', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.updateTaxonomy(c);
+});
+
+// Merchant dictionary (admin only)
+app.get('/api/v1/merchants', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.listMerchants(c);
+});
+
+app.post('/api/v1/merchants', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.createMerchant(c);
+});
+
+app.post('/api/v1/merchants/import', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.importMerchants(c);
+});
+
+app.put('/api/v1/merchants/:merchantId', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.updateMerchant(c);
+});
+
+app.delete('/api/v1/merchants/:merchantId', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.deleteMerchant(c);
+});
+
+// Prompt registry (admin only)
+app.get('/api/v1/prompts', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.getPrompts(c);
+});
+
+app.post('/api/v1/prompts', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.createPromptVersion(c);
+});
+
+app.put('/api/v1/prompts/rollout', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.updatePromptRollout(c);
+});
+
+// Exchange rates upload (admin only)
+app.post('/api/v1/fx/rates', requireAdmin(), async (c) => {
+  const handlers = c.get('handlers') as APIHandlers;
+  return handlers.uploadFxRates(c);
+});
+
 // Handle CORS preflight
 app.options('*', async (c) => {
   const handlers = c.get('handlers') as APIHandlers;
@@ -89,11 +237,11 @@ app.options('*', async (c) => {
 
 // 404 handler
 app.notFound((c) => {
-  return c.json({
-    success: false,
-    error: 'Not Found',
-    message: 'The requested endpoint does not exist'
-  }, 404);
+  return handleError(new NotFoundError('The requested endpoint does not exist'), c);
 });
 
 export default app;
+
+// Durable Object classes backing the RATE_LIMITER and STATS_COUNTER bindings
+export { RateLimiter } from './ratelimit';
+export { StatsCounter } from './stats';
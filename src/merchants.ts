@@ -0,0 +1,162 @@
+import { Env, MerchantDefinition, ValidationError, ConflictError, NotFoundError } from './types';
+
+const DICTIONARY_KEY = 'merchants:dictionary';
+
+export interface MerchantMatch {
+  merchant: MerchantDefinition;
+  alias: string; // normalized alias that matched
+}
+
+// Normalized alias → merchant; build once per request with buildAliasIndex
+export type MerchantIndex = Map<string, MerchantDefinition>;
+
+export interface MerchantImportSummary {
+  created: number;
+  updated: number;
+  total: number;
+}
+
+/**
+ * Canonical merchants and their aliases, kept as a single record in the
+ * CACHE KV namespace so a parse loads the whole dictionary with one read
+ */
+export class MerchantService {
+  constructor(private env: Env) {}
+
+  async list(): Promise<MerchantDefinition[]> {
+    const data = await this.env.CACHE.get(DICTIONARY_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Alias index of the dictionary, for matchMerchant
+   */
+  async index(): Promise<MerchantIndex> {
+    return buildAliasIndex(await this.list());
+  }
+
+  async get(id: string): Promise<MerchantDefinition> {
+    const merchant = (await this.list()).find(entry => entry.id === id);
+    if (!merchant) {
+      throw new NotFoundError(`Merchant not found: ${id}`, 'MERCHANT_NOT_FOUND');
+    }
+    return merchant;
+  }
+
+  async create(merchant: MerchantDefinition): Promise<MerchantDefinition> {
+    const merchants = await this.list();
+    if (merchants.some(entry => entry.id === merchant.id)) {
+      throw new ConflictError(`Merchant already exists: ${merchant.id}`, 'MERCHANT_EXISTS');
+    }
+    await this.save([...merchants, merchant]);
+    return merchant;
+  }
+
+  async update(merchant: MerchantDefinition): Promise<MerchantDefinition> {
+    const merchants = await this.list();
+    const index = merchants.findIndex(entry => entry.id === merchant.id);
+    if (index === -1) {
+      throw new NotFoundError(`Merchant not found: ${merchant.id}`, 'MERCHANT_NOT_FOUND');
+    }
+    merchants[index] = merchant;
+    await this.save(merchants);
+    return merchant;
+  }
+
+  async delete(id: string): Promise<void> {
+    const merchants = await this.list();
+    if (!merchants.some(entry => entry.id === id)) {
+      throw new NotFoundError(`Merchant not found: ${id}`, 'MERCHANT_NOT_FOUND');
+    }
+    await this.save(merchants.filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Upsert merchants by ID, or replace the whole dictionary
+   */
+  async import(entries: MerchantDefinition[], replace: boolean = false): Promise<MerchantImportSummary> {
+    const merchants = replace ? [] : await this.list();
+    const byId = new Map(merchants.map(merchant => [merchant.id, merchant]));
+    let created = 0;
+    let updated = 0;
+
+    for (const entry of entries) {
+      if (byId.has(entry.id)) {
+        updated++;
+      } else {
+        created++;
+      }
+      byId.set(entry.id, entry);
+    }
+
+    await this.save(Array.from(byId.values()));
+    return { created, updated, total: byId.size };
+  }
+
+  private async save(merchants: MerchantDefinition[]): Promise<void> {
+    buildAliasIndex(merchants); // rejects aliases shared by two merchants
+    await this.env.CACHE.put(DICTIONARY_KEY, JSON.stringify(merchants));
+  }
+}
+
+/**
+ * Comparable form of a merchant name: "STARBUCKS COFFEE #1234" → "starbucks coffee"
+ */
+export function normalizeMerchantKey(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/(?:#|\bno\.?\s*|\bstore\s*)\d+/g, ' ') // store numbers
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .replace(/(?:\s\d+)+$/, '') // trailing branch numbers
+    .trim();
+}
+
+/**
+ * Find the canonical merchant for a raw name: an exact alias match, else the
+ * longest alias the name starts with ("starbucks coffee" → "starbucks")
+ */
+export function matchMerchant(index: MerchantIndex, raw: string | null | undefined): MerchantMatch | null {
+  const key = raw ? normalizeMerchantKey(raw) : '';
+  if (!key || index.size === 0) {
+    return null;
+  }
+
+  const exact = index.get(key);
+  if (exact) {
+    return { merchant: exact, alias: key };
+  }
+
+  let best: MerchantMatch | null = null;
+  for (const [alias, merchant] of index) {
+    const prefixed = key.startsWith(`${alias} `) || (/[^\x00-\x7f]/.test(alias) && key.startsWith(alias));
+    if (prefixed && (!best || alias.length > best.alias.length)) {
+      best = { merchant, alias };
+    }
+  }
+  return best;
+}
+
+/**
+ * Normalized alias → merchant; each merchant's canonical name counts as an alias
+ */
+export function buildAliasIndex(merchants: MerchantDefinition[]): MerchantIndex {
+  const index: MerchantIndex = new Map();
+  for (const merchant of merchants) {
+    for (const alias of [merchant.name, ...merchant.aliases]) {
+      const key = normalizeMerchantKey(alias);
+      if (!key) {
+        throw new ValidationError(`Alias "${alias}" of merchant ${merchant.id} is empty once normalized`);
+      }
+      const existing = index.get(key);
+      if (existing && existing.id !== merchant.id) {
+        throw new ConflictError(
+          `Alias "${alias}" is used by both ${existing.id} and ${merchant.id}`,
+          'MERCHANT_ALIAS_CONFLICT'
+        );
+      }
+      index.set(key, merchant);
+    }
+  }
+  return index;
+}
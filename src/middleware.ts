@@ -0,0 +1,167 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { Env, AuthenticationError, ForbiddenError, NotFoundError, RateLimitError } from './types';
+import { SecurityManager, SignatureVersion, NONCE_PATTERN } from './security';
+import { RateLimitService, RateLimitPolicyName, rateLimitHeaders } from './ratelimit';
+
+/**
+ * Require a valid device token (x-device-token or Authorization: Bearer)
+ * issued to the device named in x-device-id. Requests already admitted with
+ * an admin credential (requireSignatureOrAdmin) need none.
+ */
+export const requireDeviceToken = () => createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  if (c.get('isAdmin')) {
+    return next();
+  }
+
+  const deviceId = c.req.header('x-device-id');
+  const authorization = c.req.header('authorization');
+  const token = c.req.header('x-device-token')
+    || (authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined);
+
+  if (!deviceId || !token) {
+    throw new AuthenticationError('Missing device token', 'DEVICE_TOKEN_MISSING');
+  }
+
+  const security = new SecurityManager(c.env);
+  c.set('deviceToken', await security.verifyDeviceToken(token, deviceId));
+
+  return next();
+});
+
+interface SignatureOptions {
+  // Accept the previous key during a rotation grace window (default true)
+  allowPreviousKey?: boolean;
+}
+
+/**
+ * Require an HMAC request signature (x-device-id, x-timestamp, x-nonce,
+ * x-signature). v1 signs the raw body only; v2 (x-signature-version: 2) signs
+ * the canonical request. Each nonce is accepted once; until NONCE_REQUIRED is
+ * set, requests signed without one are still accepted.
+ * On routes with a :deviceId parameter the signed device must be the one
+ * addressed. Sets `deviceId` for the handler.
+ */
+export const requireSignature = (options: SignatureOptions = {}) =>
+  createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const deviceId = c.req.header('x-device-id');
+    const timestamp = c.req.header('x-timestamp');
+    const signature = c.req.header('x-signature');
+    const nonce = c.req.header('x-nonce');
+
+    if (!deviceId || !timestamp || !signature) {
+      throw new AuthenticationError('Missing required headers', 'SIGNATURE_MISSING');
+    }
+
+    if (nonce === undefined ? c.env.NONCE_REQUIRED === 'true' : !NONCE_PATTERN.test(nonce)) {
+      throw new AuthenticationError('Missing or malformed x-nonce header', 'NONCE_MISSING');
+    }
+
+    const routeDeviceId = c.req.param('deviceId');
+    if (routeDeviceId !== undefined && routeDeviceId !== deviceId) {
+      throw new ForbiddenError('Device ID does not match signed device', 'DEVICE_MISMATCH');
+    }
+
+    const security = new SecurityManager(c.env);
+    const version: SignatureVersion = security.resolveSignatureVersion(c.req.header('x-signature-version'));
+
+    // Signatures cover the raw bytes; the body stays readable for the handler
+    const rawRequestBody = await c.req.arrayBuffer();
+
+    const isValidSignature = await security.verifySignature(
+      deviceId,
+      timestamp,
+      signature,
+      rawRequestBody,
+      {
+        allowPreviousKey: options.allowPreviousKey ?? true,
+        nonce,
+        version,
+        request: { method: c.req.method, url: c.req.url, headers: c.req.header() }
+      }
+    );
+
+    if (!isValidSignature) {
+      throw new AuthenticationError('Invalid request signature', 'SIGNATURE_INVALID');
+    }
+
+    if (nonce === undefined) {
+      // Legacy signing scheme, accepted during the compatibility period
+      c.header('Deprecation', 'true');
+    } else {
+      await security.consumeNonce(deviceId, nonce);
+    }
+
+    c.set('deviceId', deviceId);
+    return next();
+  });
+
+/**
+ * Let requests carrying a valid admin credential (x-admin-key) through,
+ * otherwise require a device signature as in requireSignature
+ */
+export const requireSignatureOrAdmin = (options: SignatureOptions = {}) =>
+  createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const adminKey = c.req.header('x-admin-key');
+    if (adminKey !== undefined) {
+      if (!new SecurityManager(c.env).verifyAdminKey(adminKey)) {
+        throw new AuthenticationError('Invalid admin credential', 'ADMIN_REQUIRED');
+      }
+      c.set('isAdmin', true);
+      return next();
+    }
+
+    return requireSignature(options)(c, next);
+  });
+
+/**
+ * Require a valid admin credential (x-admin-key)
+ */
+export const requireAdmin = () => createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  const adminKey = c.req.header('x-admin-key');
+  if (!adminKey || !new SecurityManager(c.env).verifyAdminKey(adminKey)) {
+    throw new AuthenticationError('Admin credential required', 'ADMIN_REQUIRED');
+  }
+
+  c.set('isAdmin', true);
+  return next();
+});
+
+/**
+ * Hide a route (404) unless the environment enables it
+ */
+export const requireEnabled = (isEnabled: (env: Env) => boolean) =>
+  createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    if (!isEnabled(c.env)) {
+      throw new NotFoundError('The requested endpoint does not exist');
+    }
+    return next();
+  });
+
+/**
+ * Charge one token from the policy's bucket for the key returned by `keyOf`
+ * (skipped when it returns null). Adds RateLimit-* headers to the response.
+ */
+export const rateLimit = (
+  policy: RateLimitPolicyName,
+  keyOf: (c: Context<{ Bindings: Env }>) => string | null
+) => createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  const key = keyOf(c);
+  if (key === null) {
+    return next();
+  }
+
+  const result = await new RateLimitService(c.env).consume(policy, key);
+  for (const [header, value] of Object.entries(rateLimitHeaders(result))) {
+    c.header(header, value);
+  }
+
+  if (!result.allowed) {
+    throw new RateLimitError(
+      `Rate limit exceeded: ${result.limit} requests per ${result.window_seconds} seconds`,
+      result.retry_after_seconds
+    );
+  }
+
+  return next();
+});
@@ -1,204 +1,329 @@
-import { Env, OpenAIRequest, OpenAIResponse, ExpenseParseRequest, APIError } from './types';
+import {
+  Env,
+  OpenAIRequest,
+  OpenAIResponse,
+  OpenAIMessage,
+  ExpenseParseRequest,
+  ExpenseParseData,
+  ExpenseTransaction,
+  ExpenseBatchParseItemResult,
+  CategoryDefinition,
+  PromptVersion,
+  EnrichmentSuggestion,
+  APIError,
+  ValidationError
+} from './types';
+import { parseExpenseOffline, parseExpenseListOffline } from './fallback';
+import { AIProviderConfig, CircuitBreaker, resolveProviderChain } from './providers';
+import { StatsRecorder } from './stats';
+import {
+  ExpenseResult,
+  Validated,
+  MAX_TRANSACTIONS,
+  validateExpenseResult,
+  validateExpenseList,
+  validateEnrichment
+} from './schema';
+import { normalizeMoney, unknownCurrencyConfidence } from './currency';
+import { resolveTimestamp } from './timezone';
+import { DEFAULT_TAXONOMY, describeCategories, snapCategory } from './categories';
+import { MerchantIndex, matchMerchant } from './merchants';
+import { FeedbackEntry, selectExamples } from './feedback';
+import { DEFAULT_PROMPT } from './prompts';
+
+// Statement descriptions sent to the model per enrichment request
+export const ENRICHMENT_CHUNK_SIZE = 50;
+export const MAX_ENRICHED_DESCRIPTIONS = 200; // per statement import; the rest are returned unenriched
+
+const ENRICHMENT_SYSTEM_PROMPT = `You identify merchants in bank statement descriptions such as "CRV*STARBUCKS 1234 LONDON GB" or "PAYPAL *NETFLIX.COM".
+
+For each numbered description, return the merchant's common name ("Starbucks", "Netflix") and the best category_id from the list provided. Use null for the merchant when the description does not name one (transfers, cash withdrawals, fees) and null for category_id when none fits.
+
+Respond with a JSON object only, in this format:
+{"items": [{"index": 0, "merchant": "Starbucks", "category_id": "food_drink.coffee"}]}`;
+
+// Model name patterns known to accept image input when VISION_MODELS is not configured
+const VISION_MODEL_PATTERN = /gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|vision|-vl\b|doubao-.*vision/i;
+
+export interface ProviderHealth {
+  name: string;
+  model: string;
+  status: 'healthy' | 'unhealthy' | 'circuit_open';
+  consecutive_failures: number;
+  circuit_open_until: string | null;
+}
+
+// Per-device data applied to a parse
+export interface ParseOptions {
+  categories?: CategoryDefinition[]; // taxonomy plus custom categories, default taxonomy if omitted
+  merchants?: MerchantIndex; // alias index of the merchant dictionary
+  feedback?: FeedbackEntry[]; // past corrections to draw few-shot examples from
+  prompt?: PromptVersion; // system prompt assigned to the device, bundled default if omitted
+}
+
+type ChatCompletionRequest = Omit<OpenAIRequest, 'model'>;
+
+// A prepared model call, shared by single and multi-transaction parsing
+interface PreparedCompletion {
+  providers: AIProviderConfig[];
+  request: ChatCompletionRequest;
+  prompt: PromptVersion;
+  categories: CategoryDefinition[];
+  inputType: 'text' | 'image' | 'image+text';
+}
 
 export class OpenAIService {
-  private readonly baseURL: string;
-  private readonly apiKey: string;
-  private readonly model: string;
-
-  constructor(private env: Env) {
-    // Support both OpenAI and ARK APIs
-    if (env.ARK_API_KEY && env.ARK_BASE_URL) {
-      this.baseURL = env.ARK_BASE_URL;
-      this.apiKey = env.ARK_API_KEY;
-      this.model = env.ARK_MODEL || 'doubao-1-5-lite-32k-250115';
-    } else if (env.OPENAI_API_KEY && env.OPENAI_BASE_URL) {
-      this.baseURL = env.OPENAI_BASE_URL;
-      this.apiKey = env.OPENAI_API_KEY;
-      this.model = env.OPENAI_MODEL || 'gpt-3.5-turbo';
-    } else {
-      throw new Error('No valid AI provider configuration found. Please set either OpenAI or ARK credentials.');
-    }
+  private readonly providers: AIProviderConfig[];
+  private readonly circuitBreaker: CircuitBreaker;
+  private totalTokens = 0;
+
+  constructor(private env: Env, private stats?: StatsRecorder) {
+    // Ordered failover chain of OpenAI-compatible providers (OpenAI, ARK, ...)
+    this.providers = resolveProviderChain(env);
+    this.circuitBreaker = new CircuitBreaker(
+      env.CACHE,
+      parseInt(env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '3'),
+      parseInt(env.CIRCUIT_BREAKER_COOLDOWN_SECONDS || '60') * 1000
+    );
   }
 
   /**
-   * Parse expense text using OpenAI GPT
+   * Total tokens reported by providers for calls made through this instance
    */
-  async parseExpenseText(request: ExpenseParseRequest): Promise<any> {
-    const timezoneOffset = request.context?.timezone_offset ?? null;
-    const systemPrompt = this.buildSystemPrompt(timezoneOffset);
-    const userPrompt = this.buildUserPrompt(request);
-
-    const openaiRequest: OpenAIRequest = {
-      model: this.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.1,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' }
-    };
+  get tokensUsed(): number {
+    return this.totalTokens;
+  }
+
+  /**
+   * Parse expense text using OpenAI GPT. The category is chosen from
+   * `options.categories` and the merchant mapped through `options.merchants`.
+   */
+  async parseExpenseText(request: ExpenseParseRequest, options: ParseOptions = {}): Promise<ExpenseParseData> {
+    const prepared = this.prepareCompletion(request, options);
 
     try {
-      const response = await this.callOpenAI(openaiRequest);
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new APIError('Empty response from AI API', 500, 'AI_API_ERROR');
+      const { result, repairedFields, provider } = await this.completeValidated(
+        prepared.providers,
+        prepared.request,
+        prepared.prompt.id,
+        validateExpenseResult
+      );
+
+      const normalized = this.normalizeResponse(result, request, prepared.categories, options.merchants ?? new Map());
+      if (repairedFields.length > 0) {
+        normalized.extensions.repaired_fields = repairedFields;
       }
-      const result = JSON.parse(content);
-
-      // Validate and normalize the response
-      return this.normalizeResponse(result, request);
+      normalized.extensions.input_type = prepared.inputType;
+      normalized.extensions.provider = provider.name;
+      normalized.extensions.model = provider.model;
+      normalized.extensions.prompt_version = prepared.prompt.id;
+      this.stats?.recordPromptParse(prepared.prompt.id, normalized.confidence);
+      return normalized;
     } catch (error) {
       console.error('AI API error:', error);
+
+      // Fall back to rule-based extraction so simple receipts still parse
+      const reason = error instanceof APIError ? error.code : 'AI_API_ERROR';
+      const fallbackResult = request.text.trim() ? parseExpenseOffline(request, reason) : null;
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
+      if (error instanceof APIError) {
+        throw error;
+      }
       throw new APIError('Failed to parse expense text', 500, 'AI_API_ERROR');
     }
   }
 
   /**
-   * Build system prompt for expense parsing
+   * Extract every transaction from a text listing several (a statement
+   * screen, a daily summary SMS). When the providers fail, the rule-based
+   * fallback reads one transaction per line that has an amount.
    */
-  private buildSystemPrompt(timezoneOffset: number | null): string {
-    return `You are an expert financial transaction parser specializing in mobile payment receipts and bank transaction records. Extract structured information from payment text in any language with high accuracy.
-
-CRITICAL: Respond with valid JSON only. No explanations, comments, or additional text.
-
-EXTRACTION TARGETS:
-- amount: Numerical value only (string, remove currency symbols, commas, spaces)
-- currency: ISO 4217 code (USD, GBP, EUR, CNY, JPY, ISK, etc.)
-- merchant: Primary business/merchant name (clean, without extra info)
-- payment_method: Payment method (Apple Pay, Google Pay, Alipay, WeChat Pay, Credit Card, Debit Card, etc.)
-- payment_card: Specific card/bank (Monzo, HSBC, Starling, Chase, Visa, Mastercard, etc.)
-- location: Geographic location (city, country, or address)
-- timestamp: ISO 8601 format (YYYY-MM-DDTHH:mm:ssZ) or null, representing the actual transaction time from receipt
-- confidence: Accuracy score (0.0-1.0)
-- extensions: Additional metadata
-
-PARSING RULES:
-1. AMOUNT: Look for numerical values with currency symbols (£, $, ¥, €, kr, ISK, etc.)
-   - Remove all non-numeric characters except decimal points
-   - Handle formats: "£9.65", "ISK 2,799", "¥25.00", "$12.50"
-
-2. CURRENCY: Map symbols and codes to ISO standards
-   - £ → GBP, $ → USD, ¥ → CNY/JPY, € → EUR, kr/ISK → ISK
-   - Look for explicit codes: USD, GBP, EUR, CNY, JPY, ISK
-   - If no explicit currency is mentioned but the text contains Chinese payment-related keywords (e.g., "财付通", "零钱", "小程序", "淘宝", "支付宝", "余额宝"), infer CNY.
-   - For English/UK contexts without explicit currency, infer GBP.
-   - For US contexts, infer USD.
-   - When no explicit currency is detected, use comprehensive inference (in priority order):
-     - PRIORITY 1: User's location context (e.g., user in UK → GBP, user in China → CNY, user in Iceland → ISK)
-     - PRIORITY 2: Merchant/location information from text (e.g., "Iceland" → ISK, "Japan" → JPY, "China/中国" → CNY)
-     - PRIORITY 3: Text language context (e.g., Chinese characters → CNY, Icelandic text → ISK, Japanese text → JPY)
-     - PRIORITY 4: Payment method context (e.g., Alipay/支付宝 → CNY, WeChat Pay/微信支付 → CNY)
-     - PRIORITY 5: Merchant brand context (e.g., known Chinese brands → CNY, known UK brands → GBP)
-   - Apply inference even for ambiguous amounts without clear currency symbols
-   - Default to USD only if all inference methods fail
-
-3. MERCHANT: Extract primary business name
-   - Prioritize recognizable brand names: "Costa Coffee", "Starbucks", "McDonald's"
-   - Clean up: "Costa Coffee，英格兰 Hounslow" → "Costa Coffee"
-   - Ignore: transaction IDs, addresses, extra descriptors
-
-4. PAYMENT_METHOD: Identify payment method
-   - Mobile: Apple Pay, Google Pay, Samsung Pay
-   - Chinese: Alipay, WeChat Pay, 支付宝, 微信支付
-   - Cards: Credit Card, Debit Card, Visa, Mastercard
-   - If card type mentioned: "Visa Debit Card" → "Debit Card"
-
-5. PAYMENT_CARD: Identify bank/card provider
-   - Banks: Monzo, HSBC, Chase, Starling, Revolut, etc.
-   - Card types: Visa, Mastercard, American Express
-   - Format: "HSBC UK Visa Debit Card" → "HSBC"
-
-6. LOCATION: Extract geographic information
-   - Cities: "Hounslow", "凱夫拉維克", "Beijing"
-   - Countries: "英格兰" → "England", "Iceland"
-   - Airports: "机场" indicates airport location
-
-7. TIMESTAMP: Parse actual transaction date/time from the receipt text
-   - PRIORITIZE time found in the receipt text over any user provided timestamp
-   - Look for explicit transaction time labels: "Transaction Time:", "Time:", "Date:", "交易时间:", "时间:", "日期:", etc.
-   - Prioritize dates with clear transaction context over general dates
-   - Formats: "2023-09-20 01:47", "2022/12/16 14:09", "09:41", "2023年09月20日 01:47"
-   - For timestamps, first try to infer timezone from content (e.g., Chinese keywords like "支付宝", "微信" imply UTC+8). Convert to UTC by subtracting 8 hours if UTC+8. If unable to infer, parse as local time without adjustment. Return in ISO 8601 format (YYYY-MM-DDTHH:mm:ssZ).
-   - Use user provided timestamp ONLY as fallback if no time is found in text, applying the same timezone adjustment
-   - Set to null if no time information available at all
-
-8. EXTENSIONS: Add contextual information
-   - category: Food & Beverage, Transportation, Shopping, Accommodation, etc.
-   - tags: Relevant keywords ["coffee", "airport", "hotel", "restaurant"]
-   - description: Brief summary of the transaction
-
-9. CONFIDENCE: Base on information clarity
-   - 0.9-1.0: All key fields clearly identified
-   - 0.7-0.9: Most fields identified, some ambiguity
-   - 0.5-0.7: Basic info only, significant ambiguity
-   - <0.5: Very unclear or incomplete
-
-LANGUAGE HANDLING:
-- English: Standard processing
-- Chinese: Handle mixed Chinese/English text
-- Other languages: Extract recognizable elements
-
-EXAMPLE RESPONSES:
-
-Costa Coffee Transaction:
-{
-  "amount": "9.65",
-  "currency": "GBP",
-  "merchant": "Costa Coffee",
-  "payment_method": "Debit Card",
-  "payment_card": "HSBC",
-  "location": "Hounslow, England",
-  "timestamp": "2023-09-20T01:47:00Z",
-  "confidence": 0.92,
-  "extensions": {
-    "category": "Food & Beverage",
-    "tags": ["coffee", "food", "airport"],
-    "description": "Costa Coffee purchase at Hounslow"
+  async parseExpenseList(request: ExpenseParseRequest, options: ParseOptions = {}): Promise<ExpenseTransaction[]> {
+    const prepared = this.prepareCompletion(request, options);
+
+    try {
+      const { result, repairedFields, provider } = await this.completeValidated(
+        prepared.providers,
+        prepared.request,
+        prepared.prompt.id,
+        validateExpenseList
+      );
+
+      let cursor = 0;
+      return result.transactions.map(({ source_text: sourceText, ...transaction }, index) => {
+        const normalized = this.normalizeResponse(transaction, request, prepared.categories, options.merchants ?? new Map());
+        const prefix = `transactions.${index}.`;
+        const repaired = repairedFields
+          .filter(field => field.startsWith(prefix))
+          .map(field => field.slice(prefix.length));
+        if (repaired.length > 0) {
+          normalized.extensions.repaired_fields = repaired;
+        }
+        normalized.extensions.input_type = prepared.inputType;
+        normalized.extensions.provider = provider.name;
+        normalized.extensions.model = provider.model;
+        normalized.extensions.prompt_version = prepared.prompt.id;
+        this.stats?.recordPromptParse(prepared.prompt.id, normalized.confidence);
+
+        const span = locateSpan(request.text, sourceText, cursor);
+        if (span) {
+          cursor = span.end;
+        }
+        return { ...normalized, source_span: span };
+      });
+    } catch (error) {
+      console.error('AI API error:', error);
+
+      const reason = error instanceof APIError ? error.code : 'AI_API_ERROR';
+      const fallbackResult = request.text.trim() ? parseExpenseListOffline(request, reason) : null;
+      if (fallbackResult) {
+        return fallbackResult;
+      }
+
+      if (error instanceof APIError) {
+        throw error;
+      }
+      throw new APIError('Failed to parse expense text', 500, 'AI_API_ERROR');
+    }
   }
-}
 
-Chinese Receipt Transaction:
-{
-  "amount": "25.00",
-  "currency": "CNY",
-  "merchant": "星巴克",
-  "payment_method": "支付宝",
-  "payment_card": null,
-  "location": "北京",
-  "timestamp": "2023-09-20T14:30:00Z",
-  "confidence": 0.95,
-  "extensions": {
-    "category": "Food & Beverage",
-    "tags": ["coffee", "chinese"],
-    "description": "星巴克消费"
+  /**
+   * Suggest a merchant and category for each bank statement description, in
+   * one request; callers send at most ENRICHMENT_CHUNK_SIZE descriptions at a
+   * time. Entries are null where the model made no suggestion.
+   */
+  async enrichDescriptions(
+    descriptions: string[],
+    categories: CategoryDefinition[] = DEFAULT_TAXONOMY
+  ): Promise<Array<EnrichmentSuggestion | null>> {
+    const suggestions: Array<EnrichmentSuggestion | null> = new Array(descriptions.length).fill(null);
+
+    try {
+      const { result } = await this.completeValidated(
+        this.providers,
+        {
+          messages: [
+            { role: 'system', content: ENRICHMENT_SYSTEM_PROMPT },
+            {
+              role: 'user',
+              content: `CATEGORIES:\n${describeCategories(categories)}\n\nDESCRIPTIONS:\n${descriptions.map((description, index) => `${index}. ${description}`).join('\n')}`
+            }
+          ],
+          temperature: 0,
+          max_tokens: 3000,
+          response_format: { type: 'json_object' }
+        },
+        undefined,
+        validateEnrichment
+      );
+
+      for (const item of result.items) {
+        if (item.index < descriptions.length) {
+          suggestions[item.index] = { merchant: item.merchant, category_id: item.category_id };
+        }
+      }
+      return suggestions;
+    } catch (error) {
+      console.error('AI enrichment error:', error);
+      if (error instanceof APIError) {
+        throw error;
+      }
+      throw new APIError('Failed to enrich statement descriptions', 500, 'AI_API_ERROR');
+    }
   }
-}
 
-Hotel Transaction:
-{
-  "amount": "2799",
-  "currency": "ISK",
-  "merchant": "Aurora Star Airport Hotel",
-  "payment_method": "Credit Card",
-  "payment_card": "Monzo",
-  "location": "Keflavik, Iceland",
-  "timestamp": "2022-12-16T14:09:00Z",
-  "confidence": 0.88,
-  "extensions": {
-    "category": "Accommodation",
-    "tags": ["hotel", "airport", "travel"],
-    "description": "Airport hotel payment in Iceland"
+  /**
+   * Pick the providers and build the chat request for a parse
+   */
+  private prepareCompletion(request: ExpenseParseRequest, options: ParseOptions): PreparedCompletion {
+    const categories = options.categories ?? DEFAULT_TAXONOMY;
+    // Images can only go to vision-capable providers; without any, fall back to text-only
+    const visionProviders = this.providers.filter(provider => this.supportsVision(provider));
+    const useImage = request.image !== undefined && visionProviders.length > 0;
+
+    if (request.image && !useImage && !request.text.trim()) {
+      throw new ValidationError(
+        'None of the configured models can read images; send the receipt text instead'
+      );
+    }
+
+    const prompt = options.prompt ?? DEFAULT_PROMPT;
+    const examples = selectExamples(options.feedback ?? [], request.text);
+    const userPrompt = this.buildUserPrompt(request, categories, examples, useImage);
+
+    return {
+      providers: useImage ? visionProviders : this.providers,
+      request: {
+        messages: [
+          { role: 'system', content: prompt.system },
+          this.buildUserMessage(userPrompt, useImage ? request.image : undefined)
+        ],
+        temperature: 0.1,
+        max_tokens: request.mode === 'multi' ? 6000 : 1000,
+        response_format: { type: 'json_object' }
+      },
+      prompt,
+      categories,
+      inputType: useImage ? (request.text.trim() ? 'image+text' : 'image') : 'text'
+    };
   }
-}`;
+
+  /**
+   * Parse several expense texts with bounded concurrency.
+   * Failures are reported per item instead of failing the whole batch.
+   */
+  async parseExpenseBatch(
+    requests: ExpenseParseRequest[],
+    concurrency: number,
+    options: ParseOptions = {}
+  ): Promise<ExpenseBatchParseItemResult[]> {
+    const results: ExpenseBatchParseItemResult[] = new Array(requests.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < requests.length) {
+        const index = nextIndex++;
+        try {
+          const data = await this.parseExpenseText(requests[index]!, options);
+          results[index] = { index, success: true, data };
+        } catch (error) {
+          results[index] = {
+            index,
+            success: false,
+            error: error instanceof APIError ? error.message : 'Parsing failed',
+            code: error instanceof APIError ? error.code : 'INTERNAL_ERROR'
+          };
+        }
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, requests.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    return results;
   }
 
   /**
    * Build user prompt with context
    */
-  private buildUserPrompt(request: ExpenseParseRequest): string {
-    let prompt = `TRANSACTION TEXT TO PARSE:\n\n"${request.text}"\n\n`;
+  private buildUserPrompt(
+    request: ExpenseParseRequest,
+    categories: CategoryDefinition[],
+    examples: FeedbackEntry[],
+    withImage: boolean = false
+  ): string {
+    let prompt = '';
+    if (withImage) {
+      prompt += `The attached image is a receipt or payment screenshot. Read all text in it, using its layout (line items, totals, headers) to identify the merchant, total amount and transaction time.\n\n`;
+    }
+    if (request.text.trim()) {
+      prompt += withImage
+        ? `TEXT EXTRACTED ON DEVICE (may contain OCR errors, prefer the image when they disagree):\n\n"${request.text}"\n\n`
+        : `TRANSACTION TEXT TO PARSE:\n\n"${request.text}"\n\n`;
+    }
 
     // Add context information if available
     if (request.context) {
@@ -206,6 +331,9 @@ Hotel Transaction:
       if (request.context.location) {
         prompt += `- User Location: ${request.context.location}\n`;
       }
+      if (request.context.locale) {
+        prompt += `- User Locale: ${request.context.locale}\n`;
+      }
       if (request.context.timestamp) {
         prompt += `- Transaction Time: ${request.context.timestamp}\n`;
       }
@@ -215,13 +343,33 @@ Hotel Transaction:
       prompt += `\n`;
     }
 
+    prompt += `CATEGORIES (choose extensions.category_id from these IDs):\n${describeCategories(categories)}\n\n`;
+
+    if (examples.length > 0) {
+      prompt += `PAST CORRECTIONS FOR SIMILAR TEXT (the user confirmed these values; interpret text in the same format the same way):\n`;
+      for (const example of examples) {
+        // Corrected timestamps are in UTC, so they are left out to keep local-time output
+        const { timestamp, ...fields } = example.expected;
+        prompt += `Text: "${example.text}"\nCorrect values: ${JSON.stringify(fields)}\n\n`;
+      }
+    }
+
+    if (request.mode === 'multi') {
+      prompt += `MULTIPLE TRANSACTIONS:
+The text may list several transactions (e.g. a banking app screen or a daily summary message). Respond with {"transactions": [...]}: one object per transaction, in the order they appear, each with the fields from the system rules plus:
+- source_text: the part of the input text describing that transaction, copied exactly, character for character
+Skip balances, totals and other summary lines. Return at most ${MAX_TRANSACTIONS} transactions, or {"transactions": []} if there are none.
+
+`;
+    }
+
     prompt += `PARSING INSTRUCTIONS:
 1. Carefully analyze the text for financial transaction information
 2. Extract all identifiable elements according to the system rules
 3. Pay special attention to currency symbols and amount formatting
 4. CRITICAL: For currency inference when no explicit symbol is present, use ALL available context:
    - User location, merchant location, text language, payment method, and merchant brand
-   - Do NOT default to USD without attempting comprehensive inference first
+   - Do NOT default to USD; use "XXX" if the currency cannot be inferred
 5. Identify merchant names even if mixed with location/address info
 6. Handle multi-language text (English, Chinese, etc.)
 7. CRITICAL: For timestamp, look specifically for transaction time labels (Time:, Date:, 交易时间:, etc.) and prioritize these over general dates
@@ -233,111 +381,320 @@ PARSE NOW:`;
   }
 
   /**
-   * Call OpenAI-compatible API (OpenAI, ARK, or other providers)
+   * Build the user message, attaching the receipt image as multimodal content when present
    */
-  private async callOpenAI(request: OpenAIRequest): Promise<OpenAIResponse> {
-    const response = await fetch(`${this.baseURL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('ARK API error:', response.status, error);
-      throw new APIError(`ARK API error: ${response.status}`, response.status);
+  private buildUserMessage(
+    userPrompt: string,
+    image?: ExpenseParseRequest['image']
+  ): OpenAIMessage {
+    if (!image) {
+      return { role: 'user', content: userPrompt };
     }
 
-    return await response.json();
+    const url = image.data.startsWith('data:')
+      ? image.data
+      : `data:${image.mime_type || 'image/jpeg'};base64,${image.data}`;
+
+    return {
+      role: 'user',
+      content: [
+        { type: 'text', text: userPrompt },
+        { type: 'image_url', image_url: { url, detail: 'high' } }
+      ]
+    };
   }
 
   /**
-   * Normalize and validate OpenAI response
+   * Request a completion and validate it against the result schema. Output
+   * that still fails after the deterministic repair is sent back to the model
+   * once, together with the validation errors. Failed attempts are counted
+   * against `promptVersion` when given.
    */
-  private normalizeResponse(result: any, originalRequest: ExpenseParseRequest): any {
-    // Validate required fields
-    if (!result.amount || !result.currency) {
-      throw new APIError('Invalid response: missing amount or currency');
-    }
+  private async completeValidated<T>(
+    providers: AIProviderConfig[],
+    request: ChatCompletionRequest,
+    promptVersion: string | undefined,
+    validate: (raw: unknown) => Validated<T>
+  ): Promise<{ result: T; repairedFields: string[]; provider: AIProviderConfig }> {
+    const repairedFields = new Set<string>();
+    let messages = request.messages;
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { response, provider } = await this.callWithFailover(providers, { ...request, messages });
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new APIError('Empty response from AI API', 500, 'AI_API_ERROR');
+      }
 
-    // Normalize currency code
-    result.currency = this.normalizeCurrency(result.currency);
+      let issues: string[];
+      const raw = parseJSON(content);
+      if (raw === undefined) {
+        issues = ['(root): Response is not valid JSON'];
+      } else {
+        const validated = validate(raw);
+        validated.repairedFields.forEach(field => repairedFields.add(field));
+        if (validated.success) {
+          return { result: validated.data, repairedFields: Array.from(repairedFields), provider };
+        }
+        issues = validated.issues;
+      }
 
-    // Ensure confidence is within valid range
-    if (typeof result.confidence !== 'number' || result.confidence < 0 || result.confidence > 1) {
-      result.confidence = 0.5;
-    }
+      // Fields the retry is asked to fix count as repaired if it succeeds
+      for (const issue of issues) {
+        const field = issueField(issue);
+        if (field !== '(root)') {
+          repairedFields.add(field);
+        }
+      }
 
-    // Ensure extensions object exists
-    if (!result.extensions) {
-      result.extensions = {};
+      console.warn(`AI response from ${provider.name} failed validation:`, issues);
+      if (promptVersion) {
+        this.stats?.recordPromptValidationFailure(promptVersion);
+      }
+      messages = [
+        ...request.messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your response failed validation:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReturn the corrected JSON object only, following the required format exactly.`
+        }
+      ];
     }
 
-    // Add parsing metadata
-    result.extensions.parsed_at = new Date().toISOString();
-    result.extensions.source = 'openai_gpt';
-    result.extensions.original_text = originalRequest.text;
+    throw new APIError('AI response failed validation', 502, 'AI_INVALID_RESPONSE');
+  }
 
-    return result;
+  /**
+   * Whether the provider's model accepts image input
+   */
+  private supportsVision(provider: AIProviderConfig): boolean {
+    if (this.env.VISION_MODELS) {
+      return this.env.VISION_MODELS.split(',').map(model => model.trim()).includes(provider.model);
+    }
+    return VISION_MODEL_PATTERN.test(provider.model);
   }
 
   /**
-   * Normalize currency codes
+   * Try each provider in order, failing over on 5xx, 429, timeouts and network
+   * errors. Providers whose circuit is open are skipped.
    */
-  private normalizeCurrency(currency: string): string {
-    const currencyMap: { [key: string]: string } = {
-      '¥': 'CNY',
-      '￥': 'CNY',
-      '元': 'CNY',
-      '$': 'USD',
-      '美元': 'USD',
-      '€': 'EUR',
-      '欧元': 'EUR',
-      '£': 'GBP',
-      '英镑': 'GBP',
-      '港币': 'HKD',
-      '港元': 'HKD',
-      '台币': 'TWD',
-      '新台币': 'TWD',
-      '日元': 'JPY',
-      '韩元': 'KRW',
-    };
+  private async callWithFailover(
+    providers: AIProviderConfig[],
+    request: ChatCompletionRequest
+  ): Promise<{ response: OpenAIResponse; provider: AIProviderConfig }> {
+    let lastError: unknown = null;
+
+    for (const provider of providers) {
+      if (await this.circuitBreaker.isOpen(provider.name)) {
+        console.warn(`Skipping AI provider ${provider.name}: circuit open`);
+        continue;
+      }
 
-    // Direct mapping
-    if (currencyMap[currency]) {
-      return currencyMap[currency];
+      const startedAt = Date.now();
+      try {
+        const response = await this.callOpenAI(provider, request);
+        this.stats?.recordProviderCall(provider.name, Date.now() - startedAt, true, response.usage);
+        this.totalTokens += response.usage?.total_tokens || 0;
+        await this.circuitBreaker.recordSuccess(provider.name);
+        return { response, provider };
+      } catch (error) {
+        this.stats?.recordProviderCall(provider.name, Date.now() - startedAt, false);
+        if (!this.isRetryableError(error)) {
+          throw error;
+        }
+        console.error(`AI provider ${provider.name} failed, trying next provider:`, error);
+        await this.circuitBreaker.recordFailure(provider.name);
+        lastError = error;
+      }
     }
 
-    // Already ISO code
-    if (/^[A-Z]{3}$/.test(currency)) {
-      return currency;
+    if (lastError instanceof APIError) {
+      throw lastError;
     }
+    throw new APIError('All AI providers are unavailable', 503, 'AI_PROVIDERS_UNAVAILABLE');
+  }
 
-    // Default fallback
-    return 'USD';
+  /**
+   * Whether a provider error should trigger failover to the next provider
+   */
+  private isRetryableError(error: unknown): boolean {
+    if (error instanceof APIError) {
+      return error.statusCode >= 500 || error.statusCode === 429;
+    }
+    // fetch() rejects with a TypeError on network failures
+    return error instanceof TypeError;
   }
 
   /**
-   * Health check for ARK service
+   * Call OpenAI-compatible API (OpenAI, ARK, or other providers)
    */
-  async healthCheck(): Promise<boolean> {
+  private async callOpenAI(
+    provider: AIProviderConfig,
+    request: ChatCompletionRequest
+  ): Promise<OpenAIResponse> {
+    const timeoutMs = parseInt(this.env.REQUEST_TIMEOUT_SECONDS || '30') * 1000;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
     try {
-      const testRequest: OpenAIRequest = {
-        model: this.env.ARK_MODEL || 'doubao-1-5-lite-32k-250115',
-        messages: [
-          { role: 'user', content: 'Respond with "OK" if you can process this request.' }
-        ],
-        max_tokens: 10
-      };
+      const response = await fetch(`${provider.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${provider.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...request, model: provider.model }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error(`${provider.name} API error:`, response.status, error);
+        throw new APIError(`${provider.name} API error: ${response.status}`, response.status, 'AI_API_ERROR');
+      }
 
-      const response = await this.callOpenAI(testRequest);
-      return response.choices?.[0]?.message?.content?.includes('OK') || false;
+      return await response.json();
     } catch (error) {
-      console.error('AI API health check failed:', error);
-      return false;
+      if (controller.signal.aborted) {
+        throw new APIError(`AI API request timed out after ${timeoutMs}ms`, 504, 'AI_API_TIMEOUT');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
     }
   }
+
+  /**
+   * Round the amount to the currency's precision, convert the local timestamp
+   * to UTC, map the merchant to its canonical entry, snap the category to the
+   * taxonomy and add parsing metadata to a validated result. Unknown
+   * currencies are reported as XXX.
+   */
+  private normalizeResponse(
+    { timezone: inferredTimezone, ...result }: ExpenseResult,
+    originalRequest: ExpenseParseRequest,
+    categories: CategoryDefinition[],
+    merchants: MerchantIndex
+  ): ExpenseParseData {
+    const resolved = resolveTimestamp(result.timestamp, {
+      timezone: originalRequest.context?.timezone,
+      timezone_offset: originalRequest.context?.timezone_offset,
+      inferred_timezone: inferredTimezone
+    });
+    const money = normalizeMoney(result.amount, result.currency, {
+      location: originalRequest.context?.location ?? result.location,
+      locale: originalRequest.context?.locale,
+      text: originalRequest.text
+    });
+    const merchant = matchMerchant(merchants, result.merchant)?.merchant;
+    // A merchant's default category wins over the model's choice when it is available
+    const merchantCategory = categories.some(entry => entry.id === merchant?.category_id)
+      ? merchant!.category_id!
+      : undefined;
+    const category = snapCategory(
+      categories,
+      merchantCategory ?? result.extensions.category_id,
+      result.extensions.category,
+      originalRequest.context?.locale
+    );
+
+    return {
+      ...result,
+      merchant: merchant?.name ?? result.merchant ?? null,
+      merchant_raw: result.merchant ?? null,
+      merchant_id: merchant?.id ?? null,
+      amount: money.amount,
+      amount_minor: money.amount_minor,
+      currency: money.currency,
+      timestamp: resolved?.timestamp ?? null,
+      timestamp_local: resolved?.timestamp_local ?? null,
+      confidence: money.known ? result.confidence : unknownCurrencyConfidence(result.confidence),
+      extensions: {
+        ...result.extensions,
+        category: category.name,
+        category_id: category.id,
+        category_path: category.path,
+        ...(merchant?.logo_key ? { logo_key: merchant.logo_key } : {}),
+        ...(money.known ? {} : { original_currency: result.currency }),
+        ...(resolved ? { timezone: resolved.timezone, timezone_source: resolved.timezone_source } : {}),
+        parsed_at: new Date().toISOString(),
+        source: 'openai_gpt',
+        original_text: originalRequest.text
+      }
+    };
+  }
+
+  /**
+   * Health check for every provider in the chain
+   */
+  async healthCheck(): Promise<ProviderHealth[]> {
+    return Promise.all(this.providers.map(async (provider): Promise<ProviderHealth> => {
+      const circuit = await this.circuitBreaker.getState(provider.name);
+      const circuitOpen = circuit.opened_until !== null && circuit.opened_until > Date.now();
+      const health: ProviderHealth = {
+        name: provider.name,
+        model: provider.model,
+        status: 'circuit_open',
+        consecutive_failures: circuit.failures,
+        circuit_open_until: circuitOpen ? new Date(circuit.opened_until!).toISOString() : null
+      };
+
+      if (circuitOpen) {
+        return health;
+      }
+
+      try {
+        const response = await this.callOpenAI(provider, {
+          messages: [
+            { role: 'user', content: 'Respond with "OK" if you can process this request.' }
+          ],
+          max_tokens: 10
+        });
+        health.status = response.choices?.[0]?.message?.content?.includes('OK') ? 'healthy' : 'unhealthy';
+      } catch (error) {
+        console.error(`AI API health check failed for ${provider.name}:`, error);
+        health.status = 'unhealthy';
+      }
+
+      return health;
+    }));
+  }
+}
+
+function parseJSON(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Field a validation issue ("path: message") points at: the first path
+ * segment, keeping list indexes so "transactions.0.amount" stays per item
+ */
+function issueField(issue: string): string {
+  const segments = issue.split(':')[0]!.split('.');
+  let end = 1;
+  while (end < segments.length - 1 && /^\d+$/.test(segments[end]!)) {
+    end += 2;
+  }
+  return segments.slice(0, end).join('.');
+}
+
+/**
+ * Offsets of a transaction's excerpt in the input text, searching from
+ * `from` first so repeated excerpts map to successive occurrences
+ */
+function locateSpan(text: string, excerpt: string | null | undefined, from: number): ExpenseTransaction['source_span'] {
+  const needle = excerpt?.trim();
+  if (!needle) {
+    return null;
+  }
+
+  let start = text.indexOf(needle, from);
+  if (start === -1) {
+    start = text.indexOf(needle);
+  }
+  return start === -1 ? null : { start, end: start + needle.length };
 }
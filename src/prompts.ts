@@ -0,0 +1,253 @@
+import { Env, PromptVersion, PromptRegistry, ValidationError, ConflictError } from './types';
+
+const REGISTRY_KEY = 'prompts:registry';
+
+// Bundled prompt, used when the registry has not been configured
+export const DEFAULT_PROMPT: PromptVersion = {
+  id: 'v1',
+  created_at: '2024-01-01T00:00:00Z',
+  system: `You are an expert financial transaction parser specializing in mobile payment receipts and bank transaction records. Extract structured information from payment text in any language with high accuracy.
+
+CRITICAL: Respond with valid JSON only. No explanations, comments, or additional text.
+
+EXTRACTION TARGETS:
+- amount: Numerical value only (string, remove currency symbols, commas, spaces), with the currency's usual decimals (e.g. "12.50" USD, "1200" JPY, "2799" ISK)
+- currency: ISO 4217 code (USD, GBP, EUR, CNY, JPY, ISK, etc.), or "XXX" if it cannot be determined
+- merchant: Primary business/merchant name (clean, without extra info)
+- payment_method: Payment method (Apple Pay, Google Pay, Alipay, WeChat Pay, Credit Card, Debit Card, etc.)
+- payment_card: Specific card/bank (Monzo, HSBC, Starling, Chase, Visa, Mastercard, etc.)
+- location: Geographic location (city, country, or address)
+- timestamp: Local transaction time as shown on the receipt (YYYY-MM-DDTHH:mm:ss, no timezone conversion) or null
+- timezone: IANA time zone the content clearly indicates (e.g. "Asia/Shanghai") or null
+- confidence: Accuracy score (0.0-1.0)
+- extensions: Additional metadata
+
+PARSING RULES:
+1. AMOUNT: Look for numerical values with currency symbols (£, $, ¥, €, kr, ISK, etc.)
+   - Remove all non-numeric characters except decimal points
+   - Handle formats: "£9.65", "ISK 2,799", "¥25.00", "$12.50"
+
+2. CURRENCY: Map symbols and codes to ISO standards
+   - Unambiguous: £ → GBP, € → EUR, ₹ → INR, ₩ → KRW, HK$ → HKD, C$ → CAD, A$ → AUD, R$ → BRL
+   - Ambiguous symbols must be resolved from the user's location and locale: $ → USD/CAD/AUD/NZD/SGD/HKD/TWD/MXN, ¥ → CNY/JPY (円 or Japanese text → JPY), kr → ISK/SEK/NOK/DKK
+   - Look for explicit codes: USD, GBP, EUR, CNY, JPY, ISK
+   - If no explicit currency is mentioned but the text contains Chinese payment-related keywords (e.g., "财付通", "零钱", "小程序", "淘宝", "支付宝", "余额宝"), infer CNY.
+   - For English/UK contexts without explicit currency, infer GBP.
+   - For US contexts, infer USD.
+   - When no explicit currency is detected, use comprehensive inference (in priority order):
+     - PRIORITY 1: User's location context (e.g., user in UK → GBP, user in China → CNY, user in Iceland → ISK)
+     - PRIORITY 2: Merchant/location information from text (e.g., "Iceland" → ISK, "Japan" → JPY, "China/中国" → CNY)
+     - PRIORITY 3: Text language context (e.g., Chinese characters → CNY, Icelandic text → ISK, Japanese text → JPY)
+     - PRIORITY 4: Payment method context (e.g., Alipay/支付宝 → CNY, WeChat Pay/微信支付 → CNY)
+     - PRIORITY 5: Merchant brand context (e.g., known Chinese brands → CNY, known UK brands → GBP)
+   - Apply inference even for ambiguous amounts without clear currency symbols
+   - If all inference methods fail, return "XXX". Never guess USD
+
+3. MERCHANT: Extract primary business name
+   - Prioritize recognizable brand names: "Costa Coffee", "Starbucks", "McDonald's"
+   - Clean up: "Costa Coffee，英格兰 Hounslow" → "Costa Coffee"
+   - Ignore: transaction IDs, addresses, extra descriptors
+
+4. PAYMENT_METHOD: Identify payment method
+   - Mobile: Apple Pay, Google Pay, Samsung Pay
+   - Chinese: Alipay, WeChat Pay, 支付宝, 微信支付
+   - Cards: Credit Card, Debit Card, Visa, Mastercard
+   - If card type mentioned: "Visa Debit Card" → "Debit Card"
+
+5. PAYMENT_CARD: Identify bank/card provider
+   - Banks: Monzo, HSBC, Chase, Starling, Revolut, etc.
+   - Card types: Visa, Mastercard, American Express
+   - Format: "HSBC UK Visa Debit Card" → "HSBC"
+
+6. LOCATION: Extract geographic information
+   - Cities: "Hounslow", "凱夫拉維克", "Beijing"
+   - Countries: "英格兰" → "England", "Iceland"
+   - Airports: "机场" indicates airport location
+
+7. TIMESTAMP: Parse actual transaction date/time from the receipt text
+   - PRIORITIZE time found in the receipt text over any user provided timestamp
+   - Look for explicit transaction time labels: "Transaction Time:", "Time:", "Date:", "交易时间:", "时间:", "日期:", etc.
+   - Prioritize dates with clear transaction context over general dates
+   - Formats: "2023-09-20 01:47", "2022/12/16 14:09", "09:41", "2023年09月20日 01:47"
+   - Return the local time exactly as printed, in the form YYYY-MM-DDTHH:mm:ss. Do NOT convert it to UTC and do NOT append "Z"; the server applies the timezone
+   - Append an offset (e.g. "+08:00") only when the text states one explicitly (e.g. "UTC+8", "GMT+1")
+   - Use user provided timestamp ONLY as fallback if no time is found in text, copying it unchanged
+   - Set to null if no time information available at all
+
+8. TIMEZONE: Set only when the content clearly indicates where the transaction took place
+   - Chinese payment apps ("支付宝", "微信") → "Asia/Shanghai"; a UK merchant or address → "Europe/London"; Iceland → "Atlantic/Reykjavik"
+   - Otherwise null; never guess from the language alone
+
+9. EXTENSIONS: Add contextual information
+   - category_id: ID of the most specific matching category from the CATEGORIES list in the user message, exactly as listed; "other" when none fits
+   - tags: Relevant keywords ["coffee", "airport", "hotel", "restaurant"]
+   - description: Brief summary of the transaction
+
+10. CONFIDENCE: Base on information clarity
+   - 0.9-1.0: All key fields clearly identified
+   - 0.7-0.9: Most fields identified, some ambiguity
+   - 0.5-0.7: Basic info only, significant ambiguity
+   - <0.5: Very unclear or incomplete
+
+LANGUAGE HANDLING:
+- English: Standard processing
+- Chinese: Handle mixed Chinese/English text
+- Other languages: Extract recognizable elements
+
+EXAMPLE RESPONSES:
+
+Costa Coffee Transaction:
+{
+  "amount": "9.65",
+  "currency": "GBP",
+  "merchant": "Costa Coffee",
+  "payment_method": "Debit Card",
+  "payment_card": "HSBC",
+  "location": "Hounslow, England",
+  "timestamp": "2023-09-20T01:47:00",
+  "timezone": "Europe/London",
+  "confidence": 0.92,
+  "extensions": {
+    "category_id": "food_drink.coffee",
+    "tags": ["coffee", "food", "airport"],
+    "description": "Costa Coffee purchase at Hounslow"
+  }
+}
+
+Chinese Receipt Transaction:
+{
+  "amount": "25.00",
+  "currency": "CNY",
+  "merchant": "星巴克",
+  "payment_method": "支付宝",
+  "payment_card": null,
+  "location": "北京",
+  "timestamp": "2023-09-20T14:30:00",
+  "timezone": "Asia/Shanghai",
+  "confidence": 0.95,
+  "extensions": {
+    "category_id": "food_drink.coffee",
+    "tags": ["coffee", "chinese"],
+    "description": "星巴克消费"
+  }
+}
+
+Hotel Transaction:
+{
+  "amount": "2799",
+  "currency": "ISK",
+  "merchant": "Aurora Star Airport Hotel",
+  "payment_method": "Credit Card",
+  "payment_card": "Monzo",
+  "location": "Keflavik, Iceland",
+  "timestamp": "2022-12-16T14:09:00",
+  "timezone": "Atlantic/Reykjavik",
+  "confidence": 0.88,
+  "extensions": {
+    "category_id": "travel.accommodation",
+    "tags": ["hotel", "airport", "travel"],
+    "description": "Airport hotel payment in Iceland"
+  }
+}`
+};
+
+export interface PromptAssignment {
+  prompt: PromptVersion;
+  experiment: string | null; // experiment the device was bucketed in, if any
+}
+
+/**
+ * Versioned system prompts kept in the CACHE KV namespace. Versions are
+ * immutable once stored; the rollout picks the active version and an
+ * optional experiment that sends a percentage of devices to other versions.
+ */
+export class PromptRegistryService {
+  private registry: PromptRegistry | null = null;
+
+  constructor(private env: Env) {}
+
+  async getRegistry(): Promise<PromptRegistry> {
+    if (this.registry === null) {
+      const data = await this.env.CACHE.get(REGISTRY_KEY);
+      this.registry = data
+        ? JSON.parse(data)
+        : { active: DEFAULT_PROMPT.id, versions: [DEFAULT_PROMPT], experiment: null };
+    }
+    return this.registry!;
+  }
+
+  /**
+   * Store a new prompt version; existing IDs cannot be overwritten
+   */
+  async addVersion(id: string, system: string): Promise<PromptVersion> {
+    const registry = await this.getRegistry();
+    if (registry.versions.some(version => version.id === id)) {
+      throw new ConflictError(`Prompt version already exists: ${id}`, 'PROMPT_VERSION_EXISTS');
+    }
+
+    const version: PromptVersion = { id, system, created_at: new Date().toISOString() };
+    await this.save({ ...registry, versions: [...registry.versions, version] });
+    return version;
+  }
+
+  /**
+   * Set the active version and the experiment (null ends it)
+   */
+  async setRollout(active: string, experiment: PromptRegistry['experiment']): Promise<PromptRegistry> {
+    const registry = await this.getRegistry();
+    const known = new Set(registry.versions.map(version => version.id));
+
+    for (const id of [active, ...(experiment?.variants.map(variant => variant.version) ?? [])]) {
+      if (!known.has(id)) {
+        throw new ValidationError(`Unknown prompt version: ${id}`);
+      }
+    }
+    const total = experiment?.variants.reduce((sum, variant) => sum + variant.percent, 0) ?? 0;
+    if (total > 100) {
+      throw new ValidationError(`Experiment variants cover ${total}% of devices; at most 100% allowed`);
+    }
+
+    const updated: PromptRegistry = { ...registry, active, experiment };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Prompt for a device: experiment variants take the first percentages of
+   * the device's hash bucket (0-99), everyone else gets the active version
+   */
+  async forDevice(deviceId: string): Promise<PromptAssignment> {
+    const registry = await this.getRegistry();
+    const byId = new Map(registry.versions.map(version => [version.id, version]));
+    const active = byId.get(registry.active) ?? DEFAULT_PROMPT;
+
+    const experiment = registry.experiment;
+    if (!experiment || experiment.variants.length === 0) {
+      return { prompt: active, experiment: null };
+    }
+
+    const bucket = await deviceBucket(deviceId, experiment.name);
+    let threshold = 0;
+    for (const variant of experiment.variants) {
+      threshold += variant.percent;
+      if (bucket < threshold) {
+        return { prompt: byId.get(variant.version) ?? active, experiment: experiment.name };
+      }
+    }
+    return { prompt: active, experiment: experiment.name };
+  }
+
+  private async save(registry: PromptRegistry): Promise<void> {
+    await this.env.CACHE.put(REGISTRY_KEY, JSON.stringify(registry));
+    this.registry = registry;
+  }
+}
+
+/**
+ * Stable 0-99 bucket for a device; salted with the experiment name so each
+ * experiment splits devices independently
+ */
+export async function deviceBucket(deviceId: string, salt: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${deviceId}`));
+  return new DataView(digest).getUint32(0) % 100;
+}
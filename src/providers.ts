@@ -0,0 +1,120 @@
+import { Env } from './types';
+
+export interface AIProviderConfig {
+  name: string;
+  baseURL: string;
+  apiKey: string;
+  model: string;
+}
+
+export interface CircuitState {
+  failures: number;
+  opened_until: number | null;
+  last_failure_at: number | null;
+}
+
+// Built-in defaults for the providers the API has always supported
+const DEFAULT_MODELS: { [provider: string]: string } = {
+  ark: 'doubao-1-5-lite-32k-250115',
+  openai: 'gpt-3.5-turbo'
+};
+
+const DEFAULT_PROVIDER_CHAIN = ['ark', 'openai'];
+
+/**
+ * Resolve the ordered AI provider chain from the environment.
+ *
+ * AI_PROVIDER_CHAIN lists provider names in priority order (e.g. "openai,ark,deepseek").
+ * Each provider NAME is configured through NAME_API_KEY, NAME_BASE_URL and NAME_MODEL.
+ * Providers without a key or base URL are skipped.
+ */
+export function resolveProviderChain(env: Env): AIProviderConfig[] {
+  const vars = env as unknown as { [key: string]: string | undefined };
+  const names = env.AI_PROVIDER_CHAIN
+    ? env.AI_PROVIDER_CHAIN.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PROVIDER_CHAIN;
+
+  const providers: AIProviderConfig[] = [];
+  for (const name of names) {
+    const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    const apiKey = vars[`${prefix}_API_KEY`];
+    const baseURL = vars[`${prefix}_BASE_URL`];
+    const model = vars[`${prefix}_MODEL`] || DEFAULT_MODELS[name];
+
+    if (!apiKey || !baseURL || !model) {
+      if (env.AI_PROVIDER_CHAIN) {
+        console.warn(`AI provider "${name}" is missing ${prefix}_API_KEY, ${prefix}_BASE_URL or ${prefix}_MODEL; skipping`);
+      }
+      continue;
+    }
+
+    providers.push({ name, baseURL, apiKey, model });
+  }
+
+  if (providers.length === 0) {
+    throw new Error('No valid AI provider configuration found. Please set either OpenAI or ARK credentials.');
+  }
+
+  return providers;
+}
+
+/**
+ * Per-provider circuit breaker persisted in KV, so every isolate skips a
+ * provider that keeps failing until its cool-down period has passed
+ */
+export class CircuitBreaker {
+  constructor(
+    private kv: KVNamespace,
+    private failureThreshold: number,
+    private cooldownMs: number
+  ) {}
+
+  /**
+   * Whether requests to the provider should currently be skipped
+   */
+  async isOpen(provider: string): Promise<boolean> {
+    const state = await this.getState(provider);
+    return state.opened_until !== null && state.opened_until > Date.now();
+  }
+
+  /**
+   * Get the current breaker state for a provider
+   */
+  async getState(provider: string): Promise<CircuitState> {
+    const data = await this.kv.get(this.key(provider));
+    return data ? JSON.parse(data) : { failures: 0, opened_until: null, last_failure_at: null };
+  }
+
+  /**
+   * Reset the failure count after a successful call
+   */
+  async recordSuccess(provider: string): Promise<void> {
+    const state = await this.getState(provider);
+    if (state.failures > 0 || state.opened_until !== null) {
+      await this.kv.delete(this.key(provider));
+    }
+  }
+
+  /**
+   * Count a failure, opening the circuit once the threshold is reached.
+   * A failure while half-open (cool-down elapsed) re-opens it immediately.
+   */
+  async recordFailure(provider: string): Promise<void> {
+    const state = await this.getState(provider);
+    const now = Date.now();
+
+    state.failures += 1;
+    state.last_failure_at = now;
+    if (state.failures >= this.failureThreshold) {
+      state.opened_until = now + this.cooldownMs;
+    }
+
+    await this.kv.put(this.key(provider), JSON.stringify(state), {
+      expirationTtl: Math.max(60, Math.ceil((this.cooldownMs * 2) / 1000)) // KV minimum TTL is 60s
+    });
+  }
+
+  private key(provider: string): string {
+    return `circuit:${provider}`;
+  }
+}
@@ -0,0 +1,103 @@
+import { Env, QuotaExceededError } from './types';
+import { formatDate } from './stats';
+
+export interface QuotaPeriodUsage {
+  used: number;
+  limit: number | null; // null when the period is unlimited
+  remaining: number | null;
+  resets_at: string;
+}
+
+export interface QuotaUsage {
+  daily: QuotaPeriodUsage;
+  monthly: QuotaPeriodUsage;
+}
+
+type QuotaPeriod = 'day' | 'month';
+
+/**
+ * Per-device AI token quotas (TOKEN_QUOTA_DAILY / TOKEN_QUOTA_MONTHLY),
+ * counted from the providers' reported `usage.total_tokens`
+ */
+export class QuotaManager {
+  constructor(private env: Env) {}
+
+  /**
+   * Reject the request when either the daily or the monthly quota is used up
+   */
+  async assertWithinQuota(deviceId: string): Promise<void> {
+    const usage = await this.getUsage(deviceId);
+
+    for (const [period, label] of [['monthly', 'Monthly'], ['daily', 'Daily']] as const) {
+      const { remaining, limit, resets_at } = usage[period];
+      if (remaining !== null && remaining <= 0) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((Date.parse(resets_at) - Date.now()) / 1000));
+        throw new QuotaExceededError(
+          `${label} AI token quota of ${limit} tokens exhausted`,
+          retryAfterSeconds
+        );
+      }
+    }
+  }
+
+  /**
+   * Add tokens spent on behalf of the device to the current day and month
+   */
+  async consume(deviceId: string, tokens: number): Promise<void> {
+    if (tokens <= 0) {
+      return;
+    }
+
+    const now = new Date();
+    await Promise.all((['day', 'month'] as const).map(async (period) => {
+      const key = this.key(deviceId, period, now);
+      const used = parseInt((await this.env.RATE_LIMIT.get(key)) || '0');
+      await this.env.RATE_LIMIT.put(key, String(used + tokens), {
+        expirationTtl: period === 'day' ? 86400 * 2 : 86400 * 32
+      });
+    }));
+  }
+
+  /**
+   * Current consumption against both quotas
+   */
+  async getUsage(deviceId: string): Promise<QuotaUsage> {
+    const now = new Date();
+    const [dailyUsed, monthlyUsed] = await Promise.all((['day', 'month'] as const).map(async (period) =>
+      parseInt((await this.env.RATE_LIMIT.get(this.key(deviceId, period, now))) || '0')
+    ));
+
+    return {
+      daily: this.describe(dailyUsed!, this.limit(this.env.TOKEN_QUOTA_DAILY), nextPeriodStart('day', now)),
+      monthly: this.describe(monthlyUsed!, this.limit(this.env.TOKEN_QUOTA_MONTHLY), nextPeriodStart('month', now))
+    };
+  }
+
+  private describe(used: number, limit: number | null, resetsAt: Date): QuotaPeriodUsage {
+    return {
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      resets_at: resetsAt.toISOString()
+    };
+  }
+
+  /**
+   * Unset or non-positive limits mean unlimited
+   */
+  private limit(value: string | undefined): number | null {
+    const limit = parseInt(value || '0');
+    return limit > 0 ? limit : null;
+  }
+
+  private key(deviceId: string, period: QuotaPeriod, now: Date): string {
+    const date = formatDate(now);
+    return `quota:${deviceId}:${period}:${period === 'day' ? date : date.slice(0, 7)}`;
+  }
+}
+
+function nextPeriodStart(period: QuotaPeriod, now: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
@@ -0,0 +1,197 @@
+import { Env } from './types';
+
+export type RateLimitPolicyName = 'register' | 'parse' | 'batch' | 'device';
+
+export interface RateLimitPolicy {
+  name: RateLimitPolicyName;
+  capacity: number; // bucket size, i.e. the allowed burst
+  windowSeconds: number; // time to refill an empty bucket
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset_seconds: number; // until the bucket is full again
+  retry_after_seconds: number; // until `cost` tokens are available (0 when allowed)
+  window_seconds: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updated_at: number;
+}
+
+// Policies keyed by device; the register policy is keyed by client IP
+export const DEVICE_RATE_LIMIT_POLICIES: RateLimitPolicyName[] = ['parse', 'batch', 'device'];
+
+/**
+ * Resolve a policy's limits from the environment
+ */
+export function resolvePolicy(env: Env, name: RateLimitPolicyName): RateLimitPolicy {
+  switch (name) {
+    case 'register':
+      return { name, capacity: parseInt(env.RATE_LIMIT_REGISTER_PER_HOUR || '10'), windowSeconds: 3600 };
+    case 'batch':
+      // Batches are charged per item
+      return { name, capacity: parseInt(env.BATCH_ITEMS_PER_HOUR || '300'), windowSeconds: 3600 };
+    case 'parse':
+    case 'device':
+      return { name, capacity: parseInt(env.RATE_LIMIT_PER_MINUTE), windowSeconds: 60 };
+  }
+}
+
+/**
+ * Token-bucket rate limiting. Buckets live in the RATE_LIMITER Durable Object
+ * when it is bound (strongly consistent), otherwise in the RATE_LIMIT KV
+ * namespace (best effort: concurrent requests may both be admitted).
+ */
+export class RateLimitService {
+  constructor(private env: Env) {}
+
+  /**
+   * Take `cost` tokens from the bucket for (policy, key)
+   */
+  async consume(policyName: RateLimitPolicyName, key: string, cost: number = 1): Promise<RateLimitResult> {
+    const policy = resolvePolicy(this.env, policyName);
+    const bucketKey = `ratelimit:${policyName}:${key}`;
+
+    if (this.env.RATE_LIMITER) {
+      try {
+        const stub = this.env.RATE_LIMITER.get(this.env.RATE_LIMITER.idFromName(bucketKey));
+        const response = await stub.fetch('https://rate-limiter/consume', {
+          method: 'POST',
+          body: JSON.stringify({ capacity: policy.capacity, window_seconds: policy.windowSeconds, cost })
+        });
+        if (response.ok) {
+          return await response.json();
+        }
+        console.error('Rate limiter object error:', response.status);
+      } catch (error) {
+        console.error('Rate limiter object unavailable, falling back to KV:', error);
+      }
+    }
+
+    const data = await this.env.RATE_LIMIT.get(bucketKey);
+    const { state, result } = takeTokens(data ? JSON.parse(data) : null, policy, cost, Date.now());
+    await this.env.RATE_LIMIT.put(bucketKey, JSON.stringify(state), {
+      expirationTtl: Math.max(60, policy.windowSeconds * 2) // KV minimum TTL is 60s
+    });
+    return result;
+  }
+
+  /**
+   * Drop all device-keyed buckets in the RATE_LIMITER object, returning the
+   * bucket keys that were reset and those that could not be
+   */
+  async resetDevice(deviceId: string): Promise<{ reset: string[]; failed: string[] }> {
+    const reset: string[] = [];
+    const failed: string[] = [];
+    if (!this.env.RATE_LIMITER) {
+      return { reset, failed };
+    }
+
+    for (const policyName of DEVICE_RATE_LIMIT_POLICIES) {
+      const bucketKey = `ratelimit:${policyName}:${deviceId}`;
+      try {
+        const stub = this.env.RATE_LIMITER.get(this.env.RATE_LIMITER.idFromName(bucketKey));
+        const response = await stub.fetch('https://rate-limiter/reset', { method: 'POST' });
+        if (!response.ok) {
+          throw new Error(`status ${response.status}`);
+        }
+        if ((await response.json() as { existed: boolean }).existed) {
+          reset.push(bucketKey);
+        }
+      } catch (error) {
+        console.error('Rate limiter bucket reset failed:', bucketKey, error);
+        failed.push(bucketKey);
+      }
+    }
+
+    return { reset, failed };
+  }
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft) plus Retry-After when limited
+ */
+export function rateLimitHeaders(result: RateLimitResult): { [header: string]: string } {
+  const headers: { [header: string]: string } = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset_seconds),
+    'RateLimit-Policy': `${result.limit};w=${result.window_seconds}`
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retry_after_seconds);
+  }
+  return headers;
+}
+
+/**
+ * Refill the bucket for the elapsed time, then try to take `cost` tokens
+ */
+function takeTokens(
+  state: BucketState | null,
+  policy: Pick<RateLimitPolicy, 'capacity' | 'windowSeconds'>,
+  cost: number,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const refillPerSecond = policy.capacity / policy.windowSeconds;
+  let tokens = state
+    ? Math.min(policy.capacity, state.tokens + ((now - state.updated_at) / 1000) * refillPerSecond)
+    : policy.capacity;
+
+  const allowed = tokens >= cost;
+  if (allowed) {
+    tokens -= cost;
+  }
+
+  return {
+    state: { tokens, updated_at: now },
+    result: {
+      allowed,
+      limit: policy.capacity,
+      remaining: Math.floor(tokens),
+      reset_seconds: Math.ceil((policy.capacity - tokens) / refillPerSecond),
+      retry_after_seconds: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / refillPerSecond)),
+      window_seconds: policy.windowSeconds
+    }
+  };
+}
+
+/**
+ * Durable Object holding one token bucket. Each (policy, key) pair maps to
+ * its own instance, and a single instance handles requests one at a time,
+ * so consuming tokens is atomic.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/reset') {
+      const existed = (await this.state.storage.get<BucketState>('bucket')) !== undefined;
+      await this.state.storage.deleteAll();
+      return Response.json({ existed });
+    }
+
+    const { capacity, window_seconds, cost } = await request.json() as {
+      capacity: number;
+      window_seconds: number;
+      cost: number;
+    };
+
+    const current = await this.state.storage.get<BucketState>('bucket');
+    const { state, result } = takeTokens(
+      current ?? null,
+      { capacity, windowSeconds: window_seconds },
+      cost,
+      Date.now()
+    );
+    await this.state.storage.put('bucket', state);
+
+    return Response.json(result);
+  }
+}
@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import { CURRENCY_SYMBOLS, isAmbiguousCurrencySymbol } from './currency';
+import { normalizeAmount } from './fallback';
+import { isValidDate } from './timezone';
+
+const optionalText = (max: number) => z.string().min(1).max(max).nullable().optional();
+
+/**
+ * Shape the model must return for a single expense
+ */
+export const expenseResultSchema = z.object({
+  amount: z.string().regex(/^\d+(\.\d+)?$/, 'Expected a plain decimal string such as "12.50"'),
+  // Ambiguous symbols ("$", "¥", "kr") pass through; they are resolved with the request's locale and location
+  currency: z.string().refine(
+    currency => /^[A-Z]{3}$/.test(currency) || isAmbiguousCurrencySymbol(currency),
+    'Expected an ISO 4217 currency code'
+  ),
+  merchant: optionalText(200),
+  payment_method: optionalText(100),
+  payment_card: optionalText(100),
+  location: optionalText(200),
+  // Local time as printed; an offset only when the receipt states one
+  timestamp: z.string().datetime({ local: true, offset: true }).nullable().optional(),
+  timezone: z.string().max(64).nullable().optional(), // IANA zone inferred from the content
+  confidence: z.number().min(0).max(1),
+  extensions: z.object({
+    category_id: z.string().max(100).optional(), // snapped to the taxonomy afterwards
+    category: z.string().max(100).optional(),
+    tags: z.array(z.string().max(50)).max(20).optional(),
+    description: z.string().max(500).optional()
+  }).default({})
+}).strict();
+
+export type ExpenseResult = z.infer<typeof expenseResultSchema>;
+
+export const MAX_TRANSACTIONS = 50;
+
+/**
+ * Shape the model must return in multi-transaction mode
+ */
+export const expenseListSchema = z.object({
+  transactions: z.array(expenseResultSchema.extend({
+    source_text: z.string().max(5000).nullable().optional() // excerpt of the input for this transaction
+  })).max(MAX_TRANSACTIONS)
+}).strict();
+
+export type ExpenseListResult = z.infer<typeof expenseListSchema>;
+
+/**
+ * Shape the model must return when enriching statement descriptions
+ */
+export const enrichmentSchema = z.object({
+  items: z.array(z.object({
+    index: z.number().int().min(0),
+    merchant: z.string().min(1).max(200).nullable(),
+    category_id: z.string().max(100).nullable()
+  }).strict())
+}).strict();
+
+export type EnrichmentResult = z.infer<typeof enrichmentSchema>;
+
+export type Validated<T> =
+  | { success: true; data: T; repairedFields: string[] }
+  | { success: false; issues: string[]; repairedFields: string[] };
+
+export type ValidatedExpense = Validated<ExpenseResult>;
+
+const TEXT_FIELDS = ['merchant', 'payment_method', 'payment_card', 'location', 'timezone'] as const;
+const ISO_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Validate raw model output, applying the deterministic repairs below when
+ * it does not match the schema
+ */
+export function validateExpenseResult(raw: unknown): ValidatedExpense {
+  const first = expenseResultSchema.safeParse(raw);
+  if (first.success) {
+    return { success: true, data: first.data, repairedFields: [] };
+  }
+
+  const { value, repairedFields } = repairExpenseResult(raw);
+  const second = expenseResultSchema.safeParse(value);
+  if (second.success) {
+    return { success: true, data: second.data, repairedFields };
+  }
+
+  return {
+    success: false,
+    issues: second.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    repairedFields
+  };
+}
+
+/**
+ * Validate a statement enrichment response (no repairs; invalid output is retried)
+ */
+export function validateEnrichment(raw: unknown): Validated<EnrichmentResult> {
+  const parsed = enrichmentSchema.safeParse(raw);
+  return parsed.success
+    ? { success: true, data: parsed.data, repairedFields: [] }
+    : {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+      repairedFields: []
+    };
+}
+
+/**
+ * Validate a multi-transaction response, repairing each transaction as in
+ * validateExpenseResult. A bare array or a single transaction object is
+ * wrapped in { transactions }.
+ */
+export function validateExpenseList(raw: unknown): Validated<ExpenseListResult> {
+  const first = expenseListSchema.safeParse(raw);
+  if (first.success) {
+    return { success: true, data: first.data, repairedFields: [] };
+  }
+
+  const { value, repairedFields } = repairExpenseList(raw);
+  const second = expenseListSchema.safeParse(value);
+  if (second.success) {
+    return { success: true, data: second.data, repairedFields };
+  }
+
+  return {
+    success: false,
+    issues: second.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    repairedFields
+  };
+}
+
+function repairExpenseList(raw: unknown): { value: unknown; repairedFields: string[] } {
+  const repaired = new Set<string>();
+  let input = raw;
+  if (Array.isArray(raw)) {
+    input = { transactions: raw };
+    repaired.add('transactions');
+  } else if (typeof raw === 'object' && raw !== null && 'amount' in raw) {
+    input = { transactions: [raw] };
+    repaired.add('transactions');
+  }
+
+  const transactions = (input as { transactions?: unknown } | null)?.transactions;
+  if (!Array.isArray(transactions)) {
+    return { value: input, repairedFields: Array.from(repaired) };
+  }
+
+  const value = {
+    transactions: transactions.map((item, index) => {
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        return item;
+      }
+      // source_text is list-only, so keep it out of the single-result repair
+      const { source_text: sourceText, ...fields } = item as { [field: string]: unknown };
+      const result = repairExpenseResult(fields);
+      result.repairedFields.forEach(field => repaired.add(`transactions.${index}.${field}`));
+      return { ...(result.value as object), source_text: typeof sourceText === 'string' ? sourceText : null };
+    })
+  };
+  for (const key of Object.keys(input as object)) {
+    if (key !== 'transactions') {
+      repaired.add(key); // unexpected top-level field, dropped
+    }
+  }
+
+  return { value, repairedFields: Array.from(repaired) };
+}
+
+/**
+ * Deterministic fix-ups for common model mistakes: numbers as strings or
+ * strings as numbers, currency symbols, formatted amounts, non-ISO
+ * timestamps, empty strings and unexpected fields
+ */
+export function repairExpenseResult(raw: unknown): { value: unknown; repairedFields: string[] } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { value: raw, repairedFields: [] };
+  }
+
+  const input = raw as { [field: string]: unknown };
+  const output: { [field: string]: unknown } = {};
+  const repaired = new Set<string>();
+  const known = new Set(Object.keys(expenseResultSchema.shape));
+
+  for (const [field, value] of Object.entries(input)) {
+    if (known.has(field)) {
+      output[field] = value;
+    } else {
+      repaired.add(field); // unexpected field, dropped
+    }
+  }
+
+  const amount = repairAmount(output.amount);
+  if (amount !== output.amount) {
+    output.amount = amount;
+    repaired.add('amount');
+  }
+
+  const currency = repairCurrency(output.currency);
+  if (currency !== output.currency) {
+    output.currency = currency;
+    repaired.add('currency');
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = output[field];
+    if (typeof value === 'number') {
+      output[field] = String(value);
+      repaired.add(field);
+    } else if (value !== undefined && value !== null && (typeof value !== 'string' || !value.trim())) {
+      output[field] = null;
+      repaired.add(field);
+    } else if (typeof value === 'string' && value !== value.trim()) {
+      output[field] = value.trim();
+      repaired.add(field);
+    }
+  }
+
+  if (output.timestamp !== undefined && output.timestamp !== null) {
+    const timestamp = repairTimestamp(output.timestamp);
+    if (timestamp !== output.timestamp) {
+      output.timestamp = timestamp;
+      repaired.add('timestamp');
+    }
+  }
+
+  const confidence = repairConfidence(output.confidence);
+  if (confidence !== output.confidence) {
+    output.confidence = confidence;
+    repaired.add('confidence');
+  }
+
+  const extensions = repairExtensions(output.extensions);
+  if (extensions !== output.extensions) {
+    output.extensions = extensions;
+    repaired.add('extensions');
+  }
+
+  return { value: output, repairedFields: Array.from(repaired) };
+}
+
+function repairAmount(value: unknown): unknown {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(Math.abs(value));
+  }
+  if (typeof value !== 'string' || /^\d+(\.\d+)?$/.test(value)) {
+    return value;
+  }
+
+  // "£9.65", "2,799 ISK", "12,50", "-25.00"
+  const numeric = value.replace(/[^\d.,]/g, '');
+  return /\d/.test(numeric) ? normalizeAmount(numeric.replace(/^[.,]+|[.,]+$/g, '')) : value;
+}
+
+function repairCurrency(value: unknown): unknown {
+  if (typeof value !== 'string' || /^[A-Z]{3}$/.test(value)) {
+    return value;
+  }
+
+  // Ambiguous symbols are left for normalizeCurrency, which has the request context
+  const trimmed = value.trim();
+  if (isAmbiguousCurrencySymbol(trimmed)) {
+    return trimmed;
+  }
+  if (CURRENCY_SYMBOLS[trimmed]) {
+    return CURRENCY_SYMBOLS[trimmed];
+  }
+  if (/^[a-z]{3}$/i.test(trimmed)) {
+    return trimmed.toUpperCase() === 'RMB' ? 'CNY' : trimmed.toUpperCase();
+  }
+  return value;
+}
+
+/**
+ * "2023-09-20 01:47" → "2023-09-20T01:47:00", "… +0800" → "…+08:00".
+ * Unparseable timestamps become null rather than failing the whole result.
+ */
+function repairTimestamp(value: unknown): unknown {
+  if (typeof value === 'string' && expenseResultSchema.shape.timestamp.safeParse(value).success) {
+    return value;
+  }
+
+  const match = typeof value === 'string' ? value.trim().match(ISO_TIMESTAMP) : null;
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '00', zone] = match;
+  const offset = !zone ? '' : zone.toUpperCase() === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+  const repaired = `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`;
+  return isValidDate(`${year}-${month}-${day}T${hour}:${minute}:${second}`) ? repaired : null;
+}
+
+function repairConfidence(value: unknown): unknown {
+  const confidence = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof confidence !== 'number' || Number.isNaN(confidence)) {
+    return 0.5;
+  }
+  // Percentages such as 92 → 0.92
+  const scaled = confidence > 1 && confidence <= 100 ? confidence / 100 : confidence;
+  return Math.min(1, Math.max(0, scaled));
+}
+
+function repairExtensions(value: unknown): unknown {
+  if (value === undefined) {
+    return value;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {};
+  }
+
+  const extensions = value as { [field: string]: unknown };
+  if (typeof extensions.tags === 'string') {
+    return {
+      ...extensions,
+      tags: extensions.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+    };
+  }
+  return value;
+}
@@ -1,4 +1,74 @@
-import { Env, DeviceInfo, AuthenticationError, RateLimitError } from './types';
+import {
+  Env,
+  DeviceInfo,
+  DeviceTokenPayload,
+  AuthenticationError
+} from './types';
+import { DEVICE_RATE_LIMIT_POLICIES } from './ratelimit';
+
+export const DEVICE_KEY_TTL_SECONDS = 86400 * 30; // 30 days
+export const DEVICE_TOKEN_TTL_SECONDS = 86400 * 30; // 30 days
+
+export interface IssuedDeviceToken {
+  token: string;
+  payload: DeviceTokenPayload;
+}
+
+// Client-generated nonce: 16-128 URL-safe characters, e.g. a UUID
+export const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// Headers covered by a v2 signature, in canonical order (absent ones sign as empty)
+export const SIGNED_HEADERS = ['content-type', 'x-device-id', 'x-nonce', 'x-timestamp'];
+
+export type SignatureVersion = 1 | 2;
+
+// The HTTP request a v2 signature covers, besides its body
+export interface SignedRequest {
+  method: string;
+  url: string;
+  headers: { [name: string]: string | undefined };
+}
+
+export interface VerifySignatureOptions {
+  // Accept the previous key during a rotation grace window (default true)
+  allowPreviousKey?: boolean;
+  nonce?: string;
+  version?: SignatureVersion; // default 1
+  request?: SignedRequest; // required for version 2
+}
+
+export interface PurgedKey {
+  namespace: 'CACHE' | 'RATE_LIMIT' | 'RATE_LIMITER';
+  key: string;
+}
+
+// Every KV key holding per-device data. `prefix` entries cover key families
+// (e.g. one key per day); keep this list in sync when adding per-device keys.
+const DEVICE_DATA_KEYS: Array<{
+  namespace: 'CACHE' | 'RATE_LIMIT';
+  key: (deviceId: string) => string;
+  prefix?: boolean;
+}> = [
+  { namespace: 'CACHE', key: deviceId => `device:${deviceId}` },
+  { namespace: 'CACHE', key: deviceId => `nonce:${deviceId}:`, prefix: true },
+  { namespace: 'CACHE', key: deviceId => `categories:${deviceId}` },
+  { namespace: 'CACHE', key: deviceId => `feedback:${deviceId}` },
+  { namespace: 'CACHE', key: deviceId => `shared-feedback:${deviceId}` },
+  ...DEVICE_RATE_LIMIT_POLICIES.map(policy => ({
+    namespace: 'RATE_LIMIT' as const,
+    key: (deviceId: string) => `ratelimit:${policy}:${deviceId}`
+  })),
+  { namespace: 'RATE_LIMIT', key: deviceId => `quota:${deviceId}:`, prefix: true },
+  // Sliding-window history written by earlier versions of the rate limiter
+  { namespace: 'RATE_LIMIT', key: deviceId => `rate_limit:${deviceId}` }
+];
+
+export interface RotatedDeviceCredentials {
+  deviceInfo: DeviceInfo;
+  keySeed: string;
+  deviceToken: string;
+  previousValidUntil: string;
+}
 
 export class SecurityManager {
   constructor(private env: Env) {}
@@ -47,6 +117,21 @@ export class SecurityManager {
     return btoa(signatureArray.map(b => String.fromCharCode(b)).join(''));
   }
 
+  /**
+   * Resolve the x-signature-version header (absent means v1), rejecting
+   * unknown versions and v1 once SIGNATURE_V1_ENABLED is "false"
+   */
+  resolveSignatureVersion(header: string | undefined): SignatureVersion {
+    const version = header === undefined ? 1 : Number(header);
+    if (version === 2 || (version === 1 && this.env.SIGNATURE_V1_ENABLED !== 'false')) {
+      return version;
+    }
+    throw new AuthenticationError(
+      `Unsupported signature version: ${header ?? '1'}`,
+      'SIGNATURE_VERSION_UNSUPPORTED'
+    );
+  }
+
   /**
    * Verify request signature
    */
@@ -54,8 +139,10 @@ export class SecurityManager {
     deviceId: string,
     timestamp: string,
     signature: string,
-    requestBody: string
+    requestBody: string | ArrayBuffer,
+    options: VerifySignatureOptions = {}
   ): Promise<boolean> {
+    const { allowPreviousKey = true, nonce, version = 1 } = options;
     try {
       // Get device info from cache
       const deviceInfo = await this.getDeviceInfo(deviceId);
@@ -72,18 +159,71 @@ export class SecurityManager {
         throw new AuthenticationError('Request timestamp expired');
       }
 
-      // Generate expected signature
-      const keySeed = deviceInfo.key_seed;
-      const message = `${timestamp}${deviceId}${await this.hashString(requestBody)}`;
-      const expectedSignature = await this.generateHMAC(keySeed, message);
+      if (!this.isDeviceKeyValid(deviceInfo)) {
+        throw new AuthenticationError('Device key expired');
+      }
+
+      // During a rotation grace window the previous key is still accepted
+      const keySeeds = [deviceInfo.key_seed];
+      if (
+        allowPreviousKey &&
+        deviceInfo.previous_key_seed &&
+        deviceInfo.previous_key_valid_until &&
+        Date.parse(deviceInfo.previous_key_valid_until) > now
+      ) {
+        keySeeds.push(deviceInfo.previous_key_seed);
+      }
+
+      // Generate expected signature; legacy clients sign without a nonce
+      const bodyHash = await this.hashBody(requestBody);
+      let message: string;
+      if (version === 2) {
+        if (!options.request) {
+          throw new Error('Signature version 2 requires the signed request');
+        }
+        message = canonicalRequest(options.request, bodyHash);
+      } else {
+        message = nonce === undefined
+          ? `${timestamp}${deviceId}${bodyHash}`
+          : `${timestamp}${deviceId}${nonce}${bodyHash}`;
+      }
+
+      let matched = false;
+      for (const keySeed of keySeeds) {
+        const expectedSignature = await this.generateHMAC(keySeed, message);
+        // Check every key so timing does not reveal which one matched
+        matched = timingSafeEqual(signature, expectedSignature) || matched;
+      }
+      if (matched) {
+        return true;
+      }
 
-      return signature === expectedSignature;
+      return false;
     } catch (error) {
       console.error('Signature verification failed:', error);
       return false;
     }
   }
 
+  /**
+   * Mark a nonce as used, rejecting one already seen from the device.
+   * Nonces are remembered for as long as their timestamp could still be
+   * accepted. KV is eventually consistent, so replays arriving at the same
+   * moment in different locations may both pass.
+   */
+  async consumeNonce(deviceId: string, nonce: string): Promise<void> {
+    const key = `nonce:${deviceId}:${nonce}`;
+    if (await this.env.CACHE.get(key) !== null) {
+      throw new AuthenticationError('Nonce has already been used', 'NONCE_REUSED');
+    }
+
+    // Timestamps are accepted up to the validity window on either side of now
+    const validitySeconds = parseInt(this.env.SIGNATURE_VALIDITY_MINUTES) * 60;
+    await this.env.CACHE.put(key, String(Date.now()), {
+      expirationTtl: Math.max(60, validitySeconds * 2) // KV minimum TTL is 60s
+    });
+  }
+
   /**
    * Generate HMAC signature
    */
@@ -106,56 +246,105 @@ export class SecurityManager {
   }
 
   /**
-   * Hash string using SHA-256
+   * Hash a request body (text or raw bytes, e.g. multipart uploads) using SHA-256
    */
-  private async hashString(input: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(input);
+  private async hashBody(input: string | ArrayBuffer): Promise<string> {
+    const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
     const hashBuffer = await crypto.subtle.digest('SHA-256', data);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
-  /**
-   * Check rate limiting
-   */
-  async checkRateLimit(deviceId: string): Promise<void> {
-    const key = `rate_limit:${deviceId}`;
-    const now = Date.now();
-    const windowStart = now - (60 * 1000); // 1 minute window
-    
-    // Get current request count
-    const currentCount = await this.env.RATE_LIMIT.get(key);
-    const requests = currentCount ? JSON.parse(currentCount) : [];
-    
-    // Filter requests within the time window
-    const recentRequests = requests.filter((timestamp: number) => timestamp > windowStart);
-    
-    // Check if rate limit exceeded
-    const maxRequests = parseInt(this.env.RATE_LIMIT_PER_MINUTE);
-    if (recentRequests.length >= maxRequests) {
-      throw new RateLimitError(`Rate limit exceeded: ${maxRequests} requests per minute`);
-    }
-    
-    // Add current request
-    recentRequests.push(now);
-    
-    // Store updated request history
-    await this.env.RATE_LIMIT.put(key, JSON.stringify(recentRequests), {
-      expirationTtl: 3600 // 1 hour TTL
-    });
-  }
-
   /**
    * Store device information
    */
   async storeDeviceInfo(deviceInfo: DeviceInfo): Promise<void> {
     const key = `device:${deviceInfo.device_id}`;
+    // Keep the record until its key expires (30 days for records without key_expires_at)
+    const ttlSeconds = deviceInfo.key_expires_at
+      ? Math.ceil((Date.parse(deviceInfo.key_expires_at) - Date.now()) / 1000)
+      : DEVICE_KEY_TTL_SECONDS;
     await this.env.CACHE.put(key, JSON.stringify(deviceInfo), {
-      expirationTtl: 86400 * 30 // 30 days TTL
+      expirationTtl: Math.max(60, ttlSeconds) // KV minimum TTL is 60s
     });
   }
 
+  /**
+   * Delete every piece of per-device data in all KV namespaces,
+   * returning the keys that existed and were removed
+   */
+  async purgeDeviceData(deviceId: string): Promise<PurgedKey[]> {
+    const purged: PurgedKey[] = [];
+
+    for (const entry of DEVICE_DATA_KEYS) {
+      const kv = this.env[entry.namespace];
+      const key = entry.key(deviceId);
+
+      if (entry.prefix) {
+        let cursor: string | undefined;
+        do {
+          const page = await kv.list({ prefix: key, cursor });
+          for (const { name } of page.keys) {
+            await kv.delete(name);
+            purged.push({ namespace: entry.namespace, key: name });
+          }
+          cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+      } else if ((await kv.get(key)) !== null) {
+        await kv.delete(key);
+        purged.push({ namespace: entry.namespace, key });
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Whether a stored device key has not yet expired
+   */
+  isDeviceKeyValid(deviceInfo: DeviceInfo): boolean {
+    return !deviceInfo.key_expires_at || Date.parse(deviceInfo.key_expires_at) > Date.now();
+  }
+
+  /**
+   * Issue a fresh key seed and device token. The previous key and token stay
+   * valid for KEY_ROTATION_GRACE_MINUTES so in-flight requests still succeed.
+   */
+  async rotateDeviceCredentials(deviceInfo: DeviceInfo): Promise<RotatedDeviceCredentials> {
+    const graceMs = parseInt(this.env.KEY_ROTATION_GRACE_MINUTES || '10') * 60 * 1000;
+    const previousValidUntil = new Date(Date.now() + graceMs).toISOString();
+
+    const keySeed = await this.generateKeySeed(deviceInfo.device_id);
+    const issued = await this.generateDeviceToken(deviceInfo.device_id);
+
+    if (deviceInfo.token_id && deviceInfo.token_expires_at) {
+      await this.revokeDeviceToken({
+        sub: deviceInfo.device_id,
+        jti: deviceInfo.token_id,
+        exp: deviceInfo.token_expires_at
+      }, Date.now() + graceMs);
+    }
+
+    const rotated: DeviceInfo = {
+      ...deviceInfo,
+      key_seed: keySeed,
+      key_expires_at: new Date(Date.now() + DEVICE_KEY_TTL_SECONDS * 1000).toISOString(),
+      previous_key_seed: deviceInfo.key_seed,
+      previous_key_valid_until: previousValidUntil,
+      previous_token_id: deviceInfo.token_id,
+      token_id: issued.payload.jti,
+      token_expires_at: issued.payload.exp
+    };
+    await this.storeDeviceInfo(rotated);
+
+    return {
+      deviceInfo: rotated,
+      keySeed,
+      deviceToken: issued.token,
+      previousValidUntil
+    };
+  }
+
   /**
    * Get device information
    */
@@ -178,31 +367,194 @@ export class SecurityManager {
   }
 
   /**
-   * Generate device token for additional security
+   * Generate device token for additional security (HS256 JWT signed with JWT_SECRET)
    */
-  async generateDeviceToken(deviceId: string): Promise<string> {
-    const payload = {
-      device_id: deviceId,
-      issued_at: Date.now(),
-      expires_at: Date.now() + (86400 * 1000 * 30) // 30 days
+  async generateDeviceToken(deviceId: string): Promise<IssuedDeviceToken> {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: DeviceTokenPayload = {
+      sub: deviceId,
+      iat: now,
+      exp: now + DEVICE_TOKEN_TTL_SECONDS,
+      jti: crypto.randomUUID()
     };
-    
+
+    const header = { alg: 'HS256', typ: 'JWT' };
+    const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+    const signature = await this.signJWT(signingInput);
+
+    return { token: `${signingInput}.${signature}`, payload };
+  }
+
+  /**
+   * Verify a device token: signature, expiry, subject, revocation, and that
+   * it is the device's current token (or the previous one during a rotation
+   * grace window), so tokens of a deleted registration die with it.
+   * Throws AuthenticationError when the token is not acceptable.
+   */
+  async verifyDeviceToken(token: string, deviceId: string): Promise<DeviceTokenPayload> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Malformed device token');
+    }
+    const [encodedHeader, encodedPayload, signature] = parts as [string, string, string];
+
+    let header: { alg?: string; typ?: string };
+    let payload: DeviceTokenPayload;
+    try {
+      header = JSON.parse(base64UrlDecode(encodedHeader));
+      payload = JSON.parse(base64UrlDecode(encodedPayload));
+    } catch (error) {
+      throw new AuthenticationError('Malformed device token');
+    }
+
+    if (header.alg !== 'HS256' || typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+      throw new AuthenticationError('Malformed device token');
+    }
+
+    const expectedSignature = await this.signJWT(`${encodedHeader}.${encodedPayload}`);
+    if (!timingSafeEqual(signature, expectedSignature)) {
+      throw new AuthenticationError('Invalid device token signature');
+    }
+
+    if (payload.exp * 1000 <= Date.now()) {
+      throw new AuthenticationError('Device token expired');
+    }
+
+    if (payload.sub !== deviceId) {
+      throw new AuthenticationError('Device token does not match device');
+    }
+
+    if (payload.jti && await this.isDeviceTokenRevoked(payload.jti)) {
+      throw new AuthenticationError('Device token revoked');
+    }
+
+    const deviceInfo = await this.getDeviceInfo(deviceId);
+    if (!deviceInfo) {
+      throw new AuthenticationError('Device not registered');
+    }
+    const inGraceWindow = deviceInfo.previous_key_valid_until !== undefined
+      && Date.parse(deviceInfo.previous_key_valid_until) > Date.now();
+    const isCurrent = payload.jti === deviceInfo.token_id
+      || (inGraceWindow && payload.jti === deviceInfo.previous_token_id);
+    // Records written before token IDs were stored accept any unrevoked token
+    if (deviceInfo.token_id !== undefined && !isCurrent) {
+      throw new AuthenticationError('Device token was replaced by a newer registration');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Add a device token to the revocation list until it would have expired anyway.
+   * `effectiveAt` (ms) lets a rotated token stay valid through a grace window.
+   */
+  async revokeDeviceToken(
+    token: Pick<DeviceTokenPayload, 'sub' | 'jti' | 'exp'>,
+    effectiveAt: number = Date.now()
+  ): Promise<void> {
+    if (!token.jti) {
+      return;
+    }
+
+    const remainingSeconds = token.exp - Math.floor(Date.now() / 1000);
+    if (remainingSeconds <= 0) {
+      return;
+    }
+
+    await this.env.CACHE.put(`revoked_token:${token.jti}`, JSON.stringify({
+      device_id: token.sub,
+      revoked_at: new Date().toISOString(),
+      effective_at: new Date(effectiveAt).toISOString()
+    }), {
+      expirationTtl: Math.max(60, remainingSeconds) // KV minimum TTL is 60s
+    });
+  }
+
+  /**
+   * Check the revocation list for a token ID
+   */
+  private async isDeviceTokenRevoked(jti: string): Promise<boolean> {
+    const data = await this.env.CACHE.get(`revoked_token:${jti}`);
+    if (!data) {
+      return false;
+    }
+    const { effective_at } = JSON.parse(data);
+    return !effective_at || Date.parse(effective_at) <= Date.now();
+  }
+
+  /**
+   * Sign a JWT signing input with JWT_SECRET, returning a base64url signature
+   */
+  private async signJWT(signingInput: string): Promise<string> {
     const encoder = new TextEncoder();
-    const payloadBuffer = encoder.encode(JSON.stringify(payload));
-    const keyBuffer = encoder.encode(this.env.JWT_SECRET);
-    
     const cryptoKey = await crypto.subtle.importKey(
       'raw',
-      keyBuffer,
+      encoder.encode(this.env.JWT_SECRET),
       { name: 'HMAC', hash: 'SHA-256' },
       false,
       ['sign']
     );
-    
-    const signature = await crypto.subtle.sign('HMAC', cryptoKey, payloadBuffer);
-    const signatureArray = Array.from(new Uint8Array(signature));
-    const signatureBase64 = btoa(signatureArray.map(b => String.fromCharCode(b)).join(''));
-    
-    return `${btoa(JSON.stringify(payload))}.${signatureBase64}`;
+
+    const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(signingInput));
+    return base64UrlEncode(new Uint8Array(signature));
   }
+
+  /**
+   * Check an admin credential against ADMIN_API_KEY (never matches when unset)
+   */
+  verifyAdminKey(adminKey: string): boolean {
+    if (!this.env.ADMIN_API_KEY) {
+      return false;
+    }
+    return timingSafeEqual(adminKey, this.env.ADMIN_API_KEY);
+  }
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  if (aBytes.byteLength !== bBytes.byteLength) {
+    return false;
+  }
+  return crypto.subtle.timingSafeEqual(aBytes, bBytes);
+}
+
+export function base64UrlEncode(input: string | Uint8Array): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const binary = Array.from(bytes).map(b => String.fromCharCode(b)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(input: string): string {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Canonical form of a request for v2 signatures, one element per line:
+ * "v2", METHOD, path, sorted query, signed headers ("name:value"), body hash
+ */
+export function canonicalRequest(request: SignedRequest, bodyHash: string): string {
+  const url = new URL(request.url);
+  const query = Array.from(url.searchParams)
+    .map(([name, value]) => [encodeURIComponent(name), encodeURIComponent(value)] as const)
+    .sort(([aName, aValue], [bName, bValue]) =>
+      aName === bName ? compare(aValue, bValue) : compare(aName, bName)
+    )
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+  const headers = SIGNED_HEADERS.map(name => `${name}:${(request.headers[name] ?? '').trim()}`);
+
+  return ['v2', request.method.toUpperCase(), url.pathname, query, ...headers, bodyHash].join('\n');
+}
+
+// Code-unit order, independent of locale
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
 }
@@ -0,0 +1,614 @@
+import { ExpenseParseData, CategoryDefinition, EnrichmentSuggestion, ValidationError } from './types';
+import { UNKNOWN_CURRENCY, normalizeMoney, unknownCurrencyConfidence } from './currency';
+import { normalizeAmount } from './fallback';
+import { TimezoneHints, isValidDate, resolveTimestamp } from './timezone';
+import { MerchantIndex, matchMerchant } from './merchants';
+import { snapCategory } from './categories';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif' | 'camt053';
+export type DateOrder = 'YMD' | 'DMY' | 'MDY';
+
+export const MAX_STATEMENT_BYTES = 2 * 1024 * 1024;
+export const MAX_STATEMENT_TRANSACTIONS = 5000;
+
+// One transaction as read from the file, before normalization
+export interface StatementEntry {
+  date: string; // naive local time (YYYY-MM-DDTHH:mm:ss), or with an offset when the file states one
+  amount: string; // absolute decimal
+  direction: 'debit' | 'credit';
+  currency: string | null;
+  payee: string | null;
+  description: string;
+  reference: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  preset: string | null; // CSV column preset that was applied
+  entries: StatementEntry[];
+  skipped: number; // rows without a readable date or amount
+}
+
+export interface StatementOptions {
+  format?: StatementFormat; // detected from the content when omitted
+  preset?: string; // CSV preset name; detected from the header when omitted
+  dateOrder?: DateOrder; // for ambiguous dates such as 03/04/2024
+  currency?: string; // for files that do not state one (QIF, most CSVs)
+}
+
+interface CsvPreset {
+  columns: {
+    date: string;
+    time?: string; // when the export keeps the time in its own column
+    description: string;
+    payee?: string;
+    amount?: string; // signed: negative is money out
+    debit?: string; // unsigned money out, with `credit`
+    credit?: string;
+    currency?: string;
+    reference?: string;
+  };
+  dateOrder: DateOrder;
+  currency?: string; // when the export has no currency column
+}
+
+// Column mappings for common bank exports, matched by header names
+export const CSV_PRESETS: { [name: string]: CsvPreset } = {
+  monzo: {
+    columns: { date: 'Date', time: 'Time', payee: 'Name', description: 'Description', amount: 'Amount', currency: 'Currency', reference: 'Transaction ID' },
+    dateOrder: 'DMY'
+  },
+  starling: {
+    columns: { date: 'Date', payee: 'Counter Party', description: 'Reference', amount: 'Amount (GBP)' },
+    dateOrder: 'DMY',
+    currency: 'GBP'
+  },
+  revolut: {
+    columns: { date: 'Completed Date', description: 'Description', amount: 'Amount', currency: 'Currency' },
+    dateOrder: 'YMD'
+  },
+  n26: {
+    columns: { date: 'Booking Date', payee: 'Partner Name', description: 'Payment Reference', amount: 'Amount (EUR)' },
+    dateOrder: 'YMD',
+    currency: 'EUR'
+  },
+  chase: {
+    columns: { date: 'Transaction Date', description: 'Description', amount: 'Amount' },
+    dateOrder: 'MDY',
+    currency: 'USD'
+  },
+  barclays: {
+    columns: { date: 'Date', description: 'Memo', amount: 'Amount' },
+    dateOrder: 'DMY',
+    currency: 'GBP'
+  },
+  hsbc_hk: {
+    columns: { date: 'Date', description: 'Description', debit: 'Withdrawal', credit: 'Deposit' },
+    dateOrder: 'DMY',
+    currency: 'HKD'
+  }
+};
+
+// Header names tried, in order, when no preset matches
+const GENERIC_COLUMNS = {
+  date: ['date', 'transaction date', 'booking date', 'posted date', 'posting date', 'value date', '交易日期', '日期'],
+  time: ['time', 'transaction time', '交易时间'],
+  description: ['description', 'details', 'memo', 'narrative', 'reference', '摘要', '交易摘要'],
+  payee: ['payee', 'merchant', 'name', 'counterparty', 'counter party', '对方户名', '交易对方'],
+  amount: ['amount', 'transaction amount', '金额', '交易金额'],
+  debit: ['debit', 'withdrawal', 'paid out', 'money out', '支出'],
+  credit: ['credit', 'deposit', 'paid in', 'money in', '收入'],
+  currency: ['currency', 'ccy', '币种'],
+  reference: ['transaction id', 'id', 'reference number', 'ref']
+};
+
+/**
+ * Detect the format from the content: CAMT.053 and OFX by their markup,
+ * QIF by its !Type header, CSV otherwise
+ */
+export function detectStatementFormat(body: string): StatementFormat {
+  const head = body.slice(0, 2000);
+  if (/<(?:\w+:)?BkToCstmrStmt\b|camt\.053/.test(head)) {
+    return 'camt053';
+  }
+  if (/OFXHEADER|<OFX>/i.test(head)) {
+    return 'ofx';
+  }
+  if (/^\s*!(?:Type|Account|Option)/im.test(head)) {
+    return 'qif';
+  }
+  return 'csv';
+}
+
+/**
+ * Read the transactions of a statement file
+ */
+export function parseStatement(body: string, options: StatementOptions = {}): ParsedStatement {
+  const text = body.replace(/^\uFEFF/, '');
+  const format = options.format ?? detectStatementFormat(text);
+
+  let parsed: ParsedStatement;
+  switch (format) {
+    case 'csv':
+      parsed = parseCsvStatement(text, options);
+      break;
+    case 'ofx':
+      parsed = parseOfx(text);
+      break;
+    case 'qif':
+      parsed = parseQif(text, options.dateOrder ?? 'MDY');
+      break;
+    case 'camt053':
+      parsed = parseCamt053(text);
+      break;
+  }
+
+  if (parsed.entries.length === 0) {
+    throw new ValidationError(`No transactions found in the ${format.toUpperCase()} statement`);
+  }
+  if (parsed.entries.length > MAX_STATEMENT_TRANSACTIONS) {
+    throw new ValidationError(`Statement too large: at most ${MAX_STATEMENT_TRANSACTIONS} transactions per import`);
+  }
+  if (options.currency) {
+    parsed.entries.forEach(entry => entry.currency ??= options.currency!);
+  }
+  return parsed;
+}
+
+/**
+ * Turn statement entries into parse results. Amounts are always positive;
+ * `extensions.direction` tells money out (debit) from money in (credit).
+ */
+export function normalizeStatement(
+  parsed: ParsedStatement,
+  hints: TimezoneHints,
+  merchants: MerchantIndex,
+  categories: CategoryDefinition[],
+  locale?: string
+): ExpenseParseData[] {
+  const parsedAt = new Date().toISOString();
+
+  return parsed.entries.map(entry => {
+    const money = normalizeMoney(entry.amount, entry.currency ?? UNKNOWN_CURRENCY);
+    const timestamp = resolveTimestamp(entry.date, hints);
+    const merchantRaw = entry.payee ?? (entry.description || null);
+
+    const data: ExpenseParseData = {
+      amount: money.amount,
+      amount_minor: money.amount_minor,
+      currency: money.currency,
+      merchant: merchantRaw,
+      merchant_raw: merchantRaw,
+      merchant_id: null,
+      payment_method: null,
+      payment_card: null,
+      location: null,
+      timestamp: timestamp?.timestamp ?? null,
+      timestamp_local: timestamp?.timestamp_local ?? null,
+      // Values read from a structured file; only an unknown currency lowers it
+      confidence: money.known ? 1 : unknownCurrencyConfidence(1),
+      extensions: {
+        description: entry.description,
+        parsed_at: parsedAt,
+        source: 'statement_import',
+        statement_format: parsed.format,
+        direction: entry.direction,
+        ...(entry.reference ? { reference: entry.reference } : {}),
+        ...(money.known || !entry.currency ? {} : { original_currency: entry.currency }),
+        ...(timestamp ? { timezone: timestamp.timezone, timezone_source: timestamp.timezone_source } : {}),
+        original_text: entry.description
+      }
+    };
+    return applyMerchantDictionary(data, merchants, categories, locale);
+  });
+}
+
+/**
+ * Map a transaction's merchant name to its canonical entry, taking the
+ * merchant's default category when it is one of `categories`
+ */
+export function applyMerchantDictionary(
+  data: ExpenseParseData,
+  merchants: MerchantIndex,
+  categories: CategoryDefinition[],
+  locale?: string
+): ExpenseParseData {
+  const merchant = matchMerchant(merchants, data.merchant)?.merchant;
+  if (!merchant) {
+    return data;
+  }
+
+  const result: ExpenseParseData = {
+    ...data,
+    merchant: merchant.name,
+    merchant_id: merchant.id,
+    extensions: {
+      ...data.extensions,
+      ...(merchant.logo_key ? { logo_key: merchant.logo_key } : {})
+    }
+  };
+  if (categories.some(category => category.id === merchant.category_id)) {
+    const category = snapCategory(categories, merchant.category_id!, undefined, locale);
+    result.extensions.category = category.name;
+    result.extensions.category_id = category.id;
+    result.extensions.category_path = category.path;
+  }
+  return result;
+}
+
+/**
+ * Apply an AI suggestion for a transaction the merchant dictionary did not
+ * recognize: the suggested merchant name goes through the dictionary again,
+ * and the suggested category is used unless the merchant has a default
+ */
+export function applyEnrichment(
+  data: ExpenseParseData,
+  suggestion: EnrichmentSuggestion,
+  merchants: MerchantIndex,
+  categories: CategoryDefinition[],
+  locale?: string
+): ExpenseParseData {
+  const result = applyMerchantDictionary(
+    { ...data, merchant: suggestion.merchant ?? data.merchant, extensions: { ...data.extensions, enriched: true } },
+    merchants,
+    categories,
+    locale
+  );
+  if (!result.extensions.category_id && suggestion.category_id) {
+    const category = snapCategory(categories, suggestion.category_id, undefined, locale);
+    result.extensions.category = category.name;
+    result.extensions.category_id = category.id;
+    result.extensions.category_path = category.path;
+  }
+  return result;
+}
+
+function parseCsvStatement(text: string, options: StatementOptions): ParsedStatement {
+  const rows = parseCsv(text);
+  const header = rows.shift()?.map(cell => cell.trim());
+  if (!header || header.length < 2) {
+    throw new ValidationError('CSV statement must start with a header row');
+  }
+
+  let presetName: string | null = options.preset ?? null;
+  let preset = presetName ? CSV_PRESETS[presetName] : undefined;
+  if (presetName && !preset) {
+    throw new ValidationError(`Unknown CSV preset: ${presetName}`);
+  }
+  if (!preset) {
+    // Most specific presets first, so a shared "Date"/"Amount" header does not win
+    const detected = Object.entries(CSV_PRESETS)
+      .sort(([, a], [, b]) => Object.keys(b.columns).length - Object.keys(a.columns).length)
+      .find(([, candidate]) => Object.values(candidate.columns).every(column => header.includes(column)));
+    [presetName, preset] = detected ?? [null, undefined];
+  }
+
+  const columns = preset ? preset.columns : genericColumns(header);
+  const index = (name: string | undefined) => (name === undefined ? -1 : header.indexOf(name));
+  const dateColumn = index(columns.date);
+  if (dateColumn === -1 || (index(columns.amount) === -1 && index(columns.debit) === -1)) {
+    throw new ValidationError('Could not find date and amount columns; pass ?preset= or rename the header');
+  }
+
+  const cell = (row: string[], name: string | undefined) => {
+    const value = row[index(name)]?.trim();
+    return value ? value : null;
+  };
+  const dates = rows.map(row => row[dateColumn] ?? '');
+  const dateOrder = options.dateOrder ?? preset?.dateOrder ?? guessDateOrder(dates);
+
+  const entries: StatementEntry[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    if (row.every(value => !value.trim())) {
+      continue;
+    }
+
+    const date = parseStatementDate(`${row[dateColumn] ?? ''} ${cell(row, columns.time) ?? ''}`, dateOrder);
+    let signed = parseSignedAmount(cell(row, columns.amount));
+    if (!signed) {
+      const debit = parseSignedAmount(cell(row, columns.debit));
+      const credit = parseSignedAmount(cell(row, columns.credit));
+      // A zero debit ("0.00") in a row that holds the credit
+      signed = debit && Number(debit.value) !== 0
+        ? { value: debit.value, negative: true }
+        : credit ? { value: credit.value, negative: false } : null;
+    }
+    if (!date || !signed) {
+      skipped++;
+      continue;
+    }
+
+    entries.push({
+      date,
+      amount: signed.value,
+      direction: signed.negative ? 'debit' : 'credit',
+      currency: cell(row, columns.currency) ?? preset?.currency ?? null,
+      payee: cell(row, columns.payee),
+      description: cell(row, columns.description) ?? cell(row, columns.payee) ?? '',
+      reference: cell(row, columns.reference)
+    });
+  }
+
+  return { format: 'csv', preset: presetName, entries, skipped };
+}
+
+function genericColumns(header: string[]): CsvPreset['columns'] {
+  const find = (names: string[]) => header.find(column => names.includes(column.toLowerCase()));
+  return {
+    date: find(GENERIC_COLUMNS.date) ?? '',
+    time: find(GENERIC_COLUMNS.time),
+    description: find(GENERIC_COLUMNS.description) ?? '',
+    payee: find(GENERIC_COLUMNS.payee),
+    amount: find(GENERIC_COLUMNS.amount),
+    debit: find(GENERIC_COLUMNS.debit),
+    credit: find(GENERIC_COLUMNS.credit),
+    currency: find(GENERIC_COLUMNS.currency),
+    reference: find(GENERIC_COLUMNS.reference)
+  };
+}
+
+/**
+ * RFC 4180 CSV with quoted fields; the delimiter (",", ";" or tab) is taken
+ * from the header line
+ */
+function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0]!.candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseOfx(text: string): ParsedStatement {
+  const currency = ofxValue(text, 'CURDEF');
+  const entries: StatementEntry[] = [];
+  let skipped = 0;
+
+  for (const [, block] of text.matchAll(/<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|<\/BANKTRANLIST>)/gi)) {
+    const date = parseOfxDate(ofxValue(block!, 'DTPOSTED'));
+    const signed = parseSignedAmount(ofxValue(block!, 'TRNAMT'));
+    if (!date || !signed) {
+      skipped++;
+      continue;
+    }
+
+    const name = ofxValue(block!, 'NAME');
+    const memo = ofxValue(block!, 'MEMO');
+    entries.push({
+      date,
+      amount: signed.value,
+      direction: signed.negative ? 'debit' : 'credit',
+      currency: ofxValue(block!, 'CURRENCY') ?? currency,
+      payee: name,
+      description: [name, memo].filter(Boolean).join(' ') || '',
+      reference: ofxValue(block!, 'FITID')
+    });
+  }
+
+  return { format: 'ofx', preset: null, entries, skipped };
+}
+
+/**
+ * Value of an OFX element; SGML-style OFX 1.x omits closing tags
+ */
+function ofxValue(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeXml(match[1]!.trim()) : '';
+  return value ? value : null;
+}
+
+/**
+ * 20230920143000.000[-5:EST] → 2023-09-20T14:30:00-05:00
+ */
+function parseOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(?:\.\d+)?(?:\[([+-]?\d{1,2})(?:\.(\d{1,2}))?(?::\w+)?\])?/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', offsetHours, offsetMinutes] = match;
+  let offset = '';
+  if (offsetHours !== undefined) {
+    const hours = parseInt(offsetHours);
+    const pad = (number: number) => String(number).padStart(2, '0');
+    offset = `${hours < 0 || offsetHours.startsWith('-') ? '-' : '+'}${pad(Math.abs(hours))}:${pad(parseInt(offsetMinutes ?? '0'))}`;
+  }
+  return isValidDate(`${year}-${month}-${day}T${hour}:${minute}:${second}`) ? `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}` : null;
+}
+
+function parseQif(text: string, dateOrder: DateOrder): ParsedStatement {
+  const entries: StatementEntry[] = [];
+  let skipped = 0;
+
+  for (const record of text.split(/^\^\s*$/m)) {
+    const fields: { [code: string]: string } = {};
+    for (const line of record.split(/\r?\n/)) {
+      if (line.startsWith('!') || line.length < 2) {
+        continue;
+      }
+      fields[line[0]!] ??= line.slice(1).trim();
+    }
+    if (Object.keys(fields).length === 0) {
+      continue;
+    }
+
+    const date = parseStatementDate(fields.D ?? '', dateOrder);
+    const signed = parseSignedAmount(fields.T ?? fields.U ?? null);
+    if (!date || !signed) {
+      skipped++;
+      continue;
+    }
+
+    entries.push({
+      date,
+      amount: signed.value,
+      direction: signed.negative ? 'debit' : 'credit',
+      currency: null, // QIF has no currency; taken from the request
+      payee: fields.P || null,
+      description: [fields.P, fields.M].filter(Boolean).join(' '),
+      reference: fields.N || null
+    });
+  }
+
+  return { format: 'qif', preset: null, entries, skipped };
+}
+
+function parseCamt053(text: string): ParsedStatement {
+  const accountCurrency = xmlValue(text.match(/<(?:\w+:)?Acct>[\s\S]*?<\/(?:\w+:)?Acct>/)?.[0] ?? '', 'Ccy');
+  const entries: StatementEntry[] = [];
+  let skipped = 0;
+
+  for (const [, entry] of text.matchAll(/<(?:\w+:)?Ntry>([\s\S]*?)<\/(?:\w+:)?Ntry>/g)) {
+    const amountMatch = entry!.match(/<(?:\w+:)?Amt\b([^>]*)>([^<]+)</);
+    const signed = parseSignedAmount(amountMatch?.[2] ?? null);
+    const bookingDate = entry!.match(/<(?:\w+:)?BookgDt>([\s\S]*?)<\/(?:\w+:)?BookgDt>/)?.[1]
+      ?? entry!.match(/<(?:\w+:)?ValDt>([\s\S]*?)<\/(?:\w+:)?ValDt>/)?.[1]
+      ?? '';
+    const dateTime = xmlValue(bookingDate, 'DtTm');
+    const date = dateTime && isValidDate(dateTime.slice(0, 19))
+      ? dateTime
+      : parseStatementDate(xmlValue(bookingDate, 'Dt') ?? '', 'YMD');
+    if (!date || !signed) {
+      skipped++;
+      continue;
+    }
+
+    const debit = xmlValue(entry!, 'CdtDbtInd') === 'DBIT';
+    // The other party: the creditor of a payment out, the debtor of money in
+    const party = entry!.match(new RegExp(`<(?:\\w+:)?${debit ? 'Cdtr' : 'Dbtr'}>([\\s\\S]*?)<\\/(?:\\w+:)?${debit ? 'Cdtr' : 'Dbtr'}>`))?.[1];
+    const payee = party ? xmlValue(party, 'Nm') : null;
+    const remittance = Array.from(entry!.matchAll(/<(?:\w+:)?Ustrd>([^<]*)</g), match => decodeXml(match[1]!.trim()))
+      .filter(Boolean)
+      .join(' ');
+
+    entries.push({
+      date,
+      amount: signed.value,
+      direction: debit ? 'debit' : 'credit',
+      currency: amountMatch?.[1]?.match(/\bCcy=["']([A-Z]{3})["']/)?.[1] ?? accountCurrency,
+      payee,
+      description: remittance || xmlValue(entry!, 'AddtlNtryInf') || payee || '',
+      reference: xmlValue(entry!, 'AcctSvcrRef') ?? xmlValue(entry!, 'NtryRef')
+    });
+  }
+
+  return { format: 'camt053', preset: null, entries, skipped };
+}
+
+/**
+ * Text of the first element named `tag`, ignoring namespace prefixes
+ */
+function xmlValue(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)<`));
+  const value = match ? decodeXml(match[1]!.trim()) : '';
+  return value ? value : null;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * "-1,234.56", "(12.50)", "12.50-", "£9.65", "12,50" → absolute decimal and sign
+ */
+function parseSignedAmount(raw: string | null): { value: string; negative: boolean } | null {
+  const value = raw?.trim();
+  if (!value || !/\d/.test(value)) {
+    return null;
+  }
+
+  const negative = /^\(.*\)$/.test(value) || /^[^\d]*-/.test(value) || /-\s*$/.test(value) || /\bDR\b/i.test(value);
+  const numeric = value.replace(/[^\d.,]/g, '').replace(/^[.,]+|[.,]+$/g, '');
+  const amount = normalizeAmount(numeric);
+  return Number.isNaN(parseFloat(amount)) ? null : { value: amount, negative };
+}
+
+/**
+ * Statement date (optionally with a time) as a naive local timestamp.
+ * Handles 2023-09-20, 20230920, 20/09/2023, 09/20/23, 20.09.2023 and
+ * Quicken's 9/20'23.
+ */
+export function parseStatementDate(value: string, order: DateOrder): string | null {
+  const trimmed = value.trim();
+  const time = trimmed.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*$/);
+  const clock = time
+    ? `${time[1]!.padStart(2, '0')}:${time[2]}:${time[3] ?? '00'}`
+    : '00:00:00';
+  const datePart = time ? trimmed.slice(0, time.index).replace(/[T\s,]+$/, '') : trimmed;
+
+  let year: string, month: string, day: string;
+  const yearFirst = datePart.match(/^(\d{4})[-/.]?(\d{1,2})[-/.]?(\d{1,2})$/);
+  const yearLast = datePart.match(/^(\d{1,2})\s*[-/.]\s*(\d{1,2})\s*[-/.']\s*(\d{2}|\d{4})$/);
+  if (yearFirst) {
+    [year, month, day] = [yearFirst[1]!, yearFirst[2]!, yearFirst[3]!];
+  } else if (yearLast) {
+    [day, month] = order === 'MDY' ? [yearLast[2]!, yearLast[1]!] : [yearLast[1]!, yearLast[2]!];
+    year = yearLast[3]!.length === 2 ? `20${yearLast[3]}` : yearLast[3]!;
+  } else {
+    return null;
+  }
+
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T${clock}`;
+  return isValidDate(iso) ? iso : null;
+}
+
+/**
+ * DMY unless a value only makes sense month-first (e.g. 09/20/2023)
+ */
+function guessDateOrder(values: string[]): DateOrder {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.]/);
+    if (match && parseInt(match[2]!) > 12) {
+      return 'MDY';
+    }
+    if (match && parseInt(match[1]!) > 12) {
+      return 'DMY';
+    }
+  }
+  return 'DMY';
+}
@@ -0,0 +1,400 @@
+import { Env, OpenAIResponse } from './types';
+
+export type StatsGranularity = 'day' | 'week' | 'month';
+
+export interface ProviderStats {
+  calls: number;
+  failures: number;
+  total_latency_ms: number;
+  max_latency_ms: number;
+  average_latency_ms?: number; // derived when reporting
+}
+
+export interface FieldAccuracy {
+  reviewed: number; // fields covered by user feedback
+  corrected: number; // of those, fields the user changed
+  accuracy?: number; // derived when reporting
+}
+
+export interface PromptVariantStats {
+  parses: number; // successful model parses
+  total_confidence: number;
+  validation_failures: number; // model responses that failed schema validation
+  fields_reviewed: number; // fields covered by user feedback
+  fields_corrected: number;
+  average_confidence?: number; // derived when reporting
+  correction_rate?: number; // derived when reporting
+}
+
+export interface UsageStats {
+  registrations: number;
+  parse_requests: number;
+  parse_successes: number;
+  parse_fallbacks: number;
+  parse_failures: { [code: string]: number };
+  providers: { [provider: string]: ProviderStats };
+  tokens: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  field_accuracy: { [field: string]: FieldAccuracy };
+  prompt_variants: { [version: string]: PromptVariantStats };
+}
+
+const STATS_RETENTION_DAYS = 400; // keep a little over a year of daily counters
+
+// Name of the single StatsCounter instance holding every day's counters
+const STATS_COUNTER_NAME = 'usage-stats';
+
+/**
+ * Per-day usage counters. Events are buffered for the lifetime of a request,
+ * then added to the day's counters by flush().
+ *
+ * Counters live in the STATS_COUNTER Durable Object when it is bound, which
+ * applies each request's events atomically and returns any date range in one
+ * call. Without it they fall back to one `stats:daily:YYYY-MM-DD` key per day
+ * in the CACHE KV namespace, updated read-modify-write, so concurrent requests
+ * may overwrite each other's counts.
+ */
+export class StatsRecorder {
+  private pending: UsageStats = emptyStats();
+  private dirty = false;
+
+  constructor(private env: Env) {}
+
+  recordRegistration(): void {
+    this.pending.registrations += 1;
+    this.dirty = true;
+  }
+
+  recordParseRequest(): void {
+    this.pending.parse_requests += 1;
+    this.dirty = true;
+  }
+
+  recordParseSuccess(source?: string): void {
+    this.pending.parse_successes += 1;
+    if (source && source !== 'openai_gpt') {
+      this.pending.parse_fallbacks += 1;
+    }
+    this.dirty = true;
+  }
+
+  recordParseFailure(code: string): void {
+    this.pending.parse_failures[code] = (this.pending.parse_failures[code] || 0) + 1;
+    this.dirty = true;
+  }
+
+  /**
+   * Record the per-field outcome of a user correction (true = parsed
+   * correctly), also against the prompt version that produced the parse
+   */
+  recordFeedback(outcome: { [field: string]: boolean }, promptVersion?: string): void {
+    const variant = promptVersion ? this.pending.prompt_variants[promptVersion] ??= emptyVariantStats() : null;
+    for (const [field, correct] of Object.entries(outcome)) {
+      const stats = this.pending.field_accuracy[field] ??= { reviewed: 0, corrected: 0 };
+      stats.reviewed += 1;
+      if (variant) {
+        variant.fields_reviewed += 1;
+      }
+      if (!correct) {
+        stats.corrected += 1;
+        if (variant) {
+          variant.fields_corrected += 1;
+        }
+      }
+    }
+    this.dirty = true;
+  }
+
+  recordPromptParse(version: string, confidence: number): void {
+    const stats = this.pending.prompt_variants[version] ??= emptyVariantStats();
+    stats.parses += 1;
+    stats.total_confidence += confidence;
+    this.dirty = true;
+  }
+
+  recordPromptValidationFailure(version: string): void {
+    const stats = this.pending.prompt_variants[version] ??= emptyVariantStats();
+    stats.validation_failures += 1;
+    this.dirty = true;
+  }
+
+  /**
+   * Record one call to an AI provider, with its token usage when it succeeded
+   */
+  recordProviderCall(
+    provider: string,
+    latencyMs: number,
+    success: boolean,
+    usage?: OpenAIResponse['usage']
+  ): void {
+    const stats = this.pending.providers[provider] ??= emptyProviderStats();
+    stats.calls += 1;
+    stats.total_latency_ms += latencyMs;
+    stats.max_latency_ms = Math.max(stats.max_latency_ms, latencyMs);
+    if (!success) {
+      stats.failures += 1;
+    }
+
+    if (usage) {
+      this.pending.tokens.prompt_tokens += usage.prompt_tokens || 0;
+      this.pending.tokens.completion_tokens += usage.completion_tokens || 0;
+      this.pending.tokens.total_tokens += usage.total_tokens || 0;
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * Add buffered events to today's counters
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const pending = this.pending;
+    this.pending = emptyStats();
+    this.dirty = false;
+
+    const date = formatDate(new Date());
+    if (this.env.STATS_COUNTER) {
+      const response = await this.counter().fetch('https://stats-counter/add', {
+        method: 'POST',
+        body: JSON.stringify({ date, stats: pending })
+      });
+      if (!response.ok) {
+        throw new Error(`Stats counter error: ${response.status}`);
+      }
+      return;
+    }
+
+    const key = `stats:daily:${date}`;
+    const data = await this.env.CACHE.get(key);
+    const current: UsageStats = data ? JSON.parse(data) : emptyStats();
+
+    await this.env.CACHE.put(key, JSON.stringify(mergeStats(current, pending)), {
+      expirationTtl: STATS_RETENTION_DAYS * 86400
+    });
+  }
+
+  /**
+   * Read daily counters for [from, to] (inclusive, YYYY-MM-DD) grouped by granularity
+   */
+  async query(
+    from: string,
+    to: string,
+    granularity: StatsGranularity
+  ): Promise<{ buckets: Array<{ period: string } & UsageStats>; totals: UsageStats }> {
+    const daily = await this.readDays(from, to);
+
+    const buckets = new Map<string, UsageStats>();
+    let totals = emptyStats();
+    for (const { date, stats } of daily) {
+      const period = periodOf(date, granularity);
+      buckets.set(period, mergeStats(buckets.get(period) ?? emptyStats(), stats));
+      totals = mergeStats(totals, stats);
+    }
+
+    return {
+      buckets: Array.from(buckets, ([period, stats]) => ({ period, ...withAverages(stats) })),
+      totals: withAverages(totals)
+    };
+  }
+
+  /**
+   * Counters for each day in [from, to], with empty counters for days without records
+   */
+  private async readDays(from: string, to: string): Promise<Array<{ date: string; stats: UsageStats }>> {
+    const days = enumerateDates(from, to);
+
+    if (this.env.STATS_COUNTER) {
+      const response = await this.counter().fetch(`https://stats-counter/query?from=${from}&to=${to}`);
+      if (!response.ok) {
+        throw new Error(`Stats counter error: ${response.status}`);
+      }
+      const recorded = await response.json() as { [date: string]: UsageStats };
+      return days.map(date => ({ date, stats: recorded[date] ?? emptyStats() }));
+    }
+
+    return Promise.all(days.map(async (date) => {
+      const data = await this.env.CACHE.get(`stats:daily:${date}`);
+      return { date, stats: data ? JSON.parse(data) as UsageStats : emptyStats() };
+    }));
+  }
+
+  private counter(): DurableObjectStub {
+    return this.env.STATS_COUNTER!.get(this.env.STATS_COUNTER!.idFromName(STATS_COUNTER_NAME));
+  }
+}
+
+/**
+ * Durable Object holding every day's usage counters under `day:YYYY-MM-DD`.
+ * A single instance handles requests one at a time, so adding a request's
+ * events is atomic, and a date range is read with one storage list.
+ */
+export class StatsCounter implements DurableObject {
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/query') {
+      const from = url.searchParams.get('from') ?? '';
+      const to = url.searchParams.get('to') ?? '';
+      // `end` is exclusive; "~" sorts after every date
+      const records = await this.state.storage.list<UsageStats>({ start: `day:${from}`, end: `day:${to}~` });
+      return Response.json(Object.fromEntries(
+        Array.from(records, ([key, stats]) => [key.slice('day:'.length), stats])
+      ));
+    }
+
+    const { date, stats } = await request.json() as { date: string; stats: UsageStats };
+    const key = `day:${date}`;
+    const current = await this.state.storage.get<UsageStats>(key);
+    await this.state.storage.put(key, mergeStats(current ?? emptyStats(), stats));
+
+    // The first write of a day drops days past the retention period
+    if (!current) {
+      const cutoff = formatDate(new Date(Date.parse(`${date}T00:00:00Z`) - STATS_RETENTION_DAYS * 86400 * 1000));
+      const expired = await this.state.storage.list({ start: 'day:', end: `day:${cutoff}` });
+      if (expired.size > 0) {
+        await this.state.storage.delete(Array.from(expired.keys()));
+      }
+    }
+
+    return Response.json({ ok: true });
+  }
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function emptyStats(): UsageStats {
+  return {
+    registrations: 0,
+    parse_requests: 0,
+    parse_successes: 0,
+    parse_fallbacks: 0,
+    parse_failures: {},
+    providers: {},
+    tokens: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    field_accuracy: {},
+    prompt_variants: {}
+  };
+}
+
+function emptyProviderStats(): ProviderStats {
+  return { calls: 0, failures: 0, total_latency_ms: 0, max_latency_ms: 0 };
+}
+
+function emptyVariantStats(): PromptVariantStats {
+  return { parses: 0, total_confidence: 0, validation_failures: 0, fields_reviewed: 0, fields_corrected: 0 };
+}
+
+function mergeStats(a: UsageStats, b: UsageStats): UsageStats {
+  const merged: UsageStats = {
+    registrations: a.registrations + b.registrations,
+    parse_requests: a.parse_requests + b.parse_requests,
+    parse_successes: a.parse_successes + b.parse_successes,
+    parse_fallbacks: (a.parse_fallbacks || 0) + (b.parse_fallbacks || 0),
+    parse_failures: { ...a.parse_failures },
+    providers: {},
+    tokens: {
+      prompt_tokens: a.tokens.prompt_tokens + b.tokens.prompt_tokens,
+      completion_tokens: a.tokens.completion_tokens + b.tokens.completion_tokens,
+      total_tokens: a.tokens.total_tokens + b.tokens.total_tokens
+    },
+    field_accuracy: {},
+    prompt_variants: {}
+  };
+
+  for (const [code, count] of Object.entries(b.parse_failures)) {
+    merged.parse_failures[code] = (merged.parse_failures[code] || 0) + count;
+  }
+
+  for (const name of new Set([...Object.keys(a.providers), ...Object.keys(b.providers)])) {
+    const left = a.providers[name] ?? emptyProviderStats();
+    const right = b.providers[name] ?? emptyProviderStats();
+    merged.providers[name] = {
+      calls: left.calls + right.calls,
+      failures: left.failures + right.failures,
+      total_latency_ms: left.total_latency_ms + right.total_latency_ms,
+      max_latency_ms: Math.max(left.max_latency_ms, right.max_latency_ms)
+    };
+  }
+
+  // Records written before feedback or prompt versions were tracked lack these
+  const aFields = a.field_accuracy ?? {};
+  const bFields = b.field_accuracy ?? {};
+  for (const field of new Set([...Object.keys(aFields), ...Object.keys(bFields)])) {
+    merged.field_accuracy[field] = {
+      reviewed: (aFields[field]?.reviewed ?? 0) + (bFields[field]?.reviewed ?? 0),
+      corrected: (aFields[field]?.corrected ?? 0) + (bFields[field]?.corrected ?? 0)
+    };
+  }
+
+  const aVariants = a.prompt_variants ?? {};
+  const bVariants = b.prompt_variants ?? {};
+  for (const version of new Set([...Object.keys(aVariants), ...Object.keys(bVariants)])) {
+    const left = aVariants[version] ?? emptyVariantStats();
+    const right = bVariants[version] ?? emptyVariantStats();
+    merged.prompt_variants[version] = {
+      parses: left.parses + right.parses,
+      total_confidence: left.total_confidence + right.total_confidence,
+      validation_failures: left.validation_failures + right.validation_failures,
+      fields_reviewed: left.fields_reviewed + right.fields_reviewed,
+      fields_corrected: left.fields_corrected + right.fields_corrected
+    };
+  }
+
+  return merged;
+}
+
+function withAverages(stats: UsageStats): UsageStats {
+  for (const provider of Object.values(stats.providers)) {
+    provider.average_latency_ms = provider.calls > 0
+      ? Math.round(provider.total_latency_ms / provider.calls)
+      : 0;
+  }
+  for (const field of Object.values(stats.field_accuracy)) {
+    field.accuracy = field.reviewed > 0
+      ? Math.round((1 - field.corrected / field.reviewed) * 1000) / 1000
+      : 0;
+  }
+  for (const variant of Object.values(stats.prompt_variants)) {
+    variant.average_confidence = variant.parses > 0
+      ? Math.round(variant.total_confidence / variant.parses * 1000) / 1000
+      : 0;
+    variant.correction_rate = variant.fields_reviewed > 0
+      ? Math.round(variant.fields_corrected / variant.fields_reviewed * 1000) / 1000
+      : 0;
+  }
+  return stats;
+}
+
+function enumerateDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const end = Date.parse(`${to}T00:00:00Z`);
+  for (let time = Date.parse(`${from}T00:00:00Z`); time <= end; time += 86400 * 1000) {
+    dates.push(formatDate(new Date(time)));
+  }
+  return dates;
+}
+
+/**
+ * Bucket label for a day: the day itself, the Monday of its ISO week, or YYYY-MM
+ */
+function periodOf(date: string, granularity: StatsGranularity): string {
+  if (granularity === 'month') {
+    return date.slice(0, 7);
+  }
+  if (granularity === 'week') {
+    const day = new Date(`${date}T00:00:00Z`);
+    const offset = (day.getUTCDay() + 6) % 7; // days since Monday
+    return formatDate(new Date(day.getTime() - offset * 86400 * 1000));
+  }
+  return date;
+}
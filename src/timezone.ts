@@ -0,0 +1,128 @@
+import { TimezoneSource } from './types';
+
+export interface TimezoneHints {
+  timezone?: string | null; // IANA zone from the request context
+  timezone_offset?: number | null; // minutes ahead of UTC from the request context
+  inferred_timezone?: string | null; // IANA zone inferred from the content
+}
+
+export interface ResolvedTimestamp {
+  timestamp: string; // UTC, YYYY-MM-DDTHH:mm:ssZ
+  timestamp_local: string; // local time with its offset, YYYY-MM-DDTHH:mm:ss±HH:MM
+  timezone_source: TimezoneSource;
+  timezone: string; // IANA zone or ±HH:MM offset that was applied
+}
+
+const TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Whether `zone` is an IANA time zone name the runtime knows
+ */
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Whether the date of an ISO 8601 date-time exists. Rejects 2023-02-30 and
+ * similar, which Date.parse rolls over into the next month.
+ */
+export function isValidDate(iso: string): boolean {
+  const time = Date.parse(`${iso.slice(0, 19)}Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === iso.slice(0, 10);
+}
+
+/**
+ * Turn a parsed timestamp into UTC deterministically. Naive local times
+ * ("2023-09-20T01:47:00") take their offset from the first available hint;
+ * returns null for anything that is not an ISO 8601 date-time or names a
+ * date that does not exist.
+ */
+export function resolveTimestamp(value: string | null | undefined, hints: TimezoneHints = {}): ResolvedTimestamp | null {
+  const match = value?.trim().match(TIMESTAMP);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '00', zone] = match;
+  const naive = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  if (!isValidDate(naive)) {
+    return null;
+  }
+  const wallClock = Date.parse(`${naive}Z`);
+
+  let source: TimezoneSource;
+  let offsetMinutes: number;
+  let timezone: string;
+
+  if (zone) {
+    source = 'explicit';
+    offsetMinutes = zone === 'Z' ? 0 : parseOffset(zone);
+    timezone = formatOffset(offsetMinutes);
+  } else if (hints.timezone && isValidTimeZone(hints.timezone)) {
+    source = 'context_timezone';
+    timezone = hints.timezone;
+    offsetMinutes = zoneOffsetAt(wallClock, hints.timezone);
+  } else if (typeof hints.timezone_offset === 'number') {
+    source = 'context_offset';
+    offsetMinutes = hints.timezone_offset;
+    timezone = formatOffset(offsetMinutes);
+  } else if (hints.inferred_timezone && isValidTimeZone(hints.inferred_timezone)) {
+    source = 'inferred';
+    timezone = hints.inferred_timezone;
+    offsetMinutes = zoneOffsetAt(wallClock, hints.inferred_timezone);
+  } else {
+    source = 'assumed_utc';
+    offsetMinutes = 0;
+    timezone = formatOffset(0);
+  }
+
+  return {
+    timestamp: new Date(wallClock - offsetMinutes * 60 * 1000).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    timestamp_local: `${naive}${formatOffset(offsetMinutes)}`,
+    timezone_source: source,
+    timezone
+  };
+}
+
+/**
+ * Offset in minutes of `zone` for a local wall-clock time (given as if it
+ * were UTC). Re-checked once at the resulting instant to handle DST changes.
+ */
+function zoneOffsetAt(wallClock: number, zone: string): number {
+  const guess = offsetAtInstant(wallClock, zone);
+  return offsetAtInstant(wallClock - guess * 60 * 1000, zone);
+}
+
+function offsetAtInstant(instant: number, zone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+
+  const field = (type: string) => parseInt(parts.find(part => part.type === type)?.value ?? '0');
+  const local = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return Math.round((local - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+function parseOffset(offset: string): number {
+  const sign = offset.startsWith('-') ? -1 : 1;
+  return sign * (parseInt(offset.slice(1, 3)) * 60 + parseInt(offset.slice(4, 6)));
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
@@ -4,6 +4,10 @@
 declare module 'hono' {
   interface ContextVariableMap {
     handlers: any;
+    deviceToken: DeviceTokenPayload;
+    deviceId: string; // set once the request signature is verified
+    isAdmin: boolean;
+    requestId: string; // cf-ray, or a random UUID outside Cloudflare
   }
 }
 export interface Env {
@@ -12,13 +16,38 @@ export interface Env {
   ARK_API_KEY?: string;
   MASTER_KEY_SEED: string;
   JWT_SECRET: string;
+  ADMIN_API_KEY?: string; // credential for admin-only routes (x-admin-key header)
 
   // Environment variables
   ENVIRONMENT: string;
   API_VERSION: string;
   RATE_LIMIT_PER_MINUTE: string;
+  RATE_LIMIT_REGISTER_PER_HOUR?: string;
   REQUEST_TIMEOUT_SECONDS: string;
   SIGNATURE_VALIDITY_MINUTES: string;
+  NONCE_REQUIRED?: string; // reject signed requests without x-nonce ("true"/"false")
+  SIGNATURE_V1_ENABLED?: string; // accept legacy v1 signatures ("true"/"false")
+  REGISTRATION_CHALLENGE_DIFFICULTY?: string; // proof-of-work leading zero bits
+  REGISTRATION_ATTESTATION_REQUIRED?: string; // reject registrations without attestation (default "true")
+
+  // Batch parsing (optional, defaults applied in handlers)
+  BATCH_MAX_ITEMS?: string;
+  BATCH_CONCURRENCY?: string;
+  BATCH_ITEMS_PER_HOUR?: string;
+
+  // Set to "false" to disable GET /api/v1/device/:deviceId entirely
+  DEVICE_INFO_ENDPOINT_ENABLED?: string;
+
+  // Per-device AI token quotas (unset or 0 = unlimited)
+  TOKEN_QUOTA_DAILY?: string;
+  TOKEN_QUOTA_MONTHLY?: string;
+
+  // Minutes the previous key seed and device token stay valid after rotation
+  KEY_ROTATION_GRACE_MINUTES?: string;
+
+  // Receipt image parsing
+  MAX_IMAGE_BYTES?: string;
+  VISION_MODELS?: string; // comma-separated list of models that accept image input
 
   // OpenAI Configuration
   OPENAI_MODEL?: string;
@@ -27,10 +56,22 @@ export interface Env {
   // ARK Configuration (alternative to OpenAI)
   ARK_MODEL?: string;
   ARK_BASE_URL?: string;
+
+  // AI provider failover: ordered provider names, each configured via NAME_API_KEY,
+  // NAME_BASE_URL and NAME_MODEL (defaults to "ark,openai")
+  AI_PROVIDER_CHAIN?: string;
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD?: string;
+  CIRCUIT_BREAKER_COOLDOWN_SECONDS?: string;
   
   // KV Namespaces
   CACHE: KVNamespace;
   RATE_LIMIT: KVNamespace;
+
+  // Durable Object backing the token-bucket rate limiter (falls back to RATE_LIMIT KV)
+  RATE_LIMITER?: DurableObjectNamespace;
+
+  // Durable Object holding daily usage counters (falls back to CACHE KV)
+  STATS_COUNTER?: DurableObjectNamespace;
 }
 
 // API Request/Response types
@@ -42,6 +83,26 @@ export interface DeviceRegistrationRequest {
     app_version: string;
     platform: 'ios' | 'android';
   };
+  attestation?: RegistrationAttestation;
+}
+
+// Proof presented at registration for a challenge from GET /device/challenge
+export interface RegistrationAttestation {
+  type: string; // 'proof_of_work', or a platform attestation such as 'app_attest'
+  challenge: string;
+  solution?: string; // proof of work
+  token?: string; // platform attestation object / integrity token
+}
+
+export interface RegistrationChallengeResponse {
+  success: boolean;
+  data: {
+    challenge: string;
+    algorithm: 'sha256';
+    difficulty: number; // required leading zero bits
+    expires_at: string;
+  };
+  error?: ErrorBody;
 }
 
 export interface DeviceRegistrationResponse {
@@ -51,41 +112,240 @@ export interface DeviceRegistrationResponse {
     expires_at: string;
     device_token: string;
   };
-  error?: string;
+  error?: ErrorBody;
+}
+
+export interface DeviceKeyRotationResponse {
+  success: boolean;
+  data: {
+    key_seed: string;
+    expires_at: string;
+    device_token: string;
+    previous_credentials_valid_until: string;
+  };
+  error?: ErrorBody;
+}
+
+export interface DeviceDeletionResponse {
+  success: boolean;
+  data: {
+    device_id: string;
+    purged_at: string;
+    purged: Array<{
+      namespace: string;
+      key: string;
+    }>;
+    failed: Array<{ // rate-limit buckets that could not be reset; they refill on their own
+      namespace: string;
+      key: string;
+    }>;
+  };
+  error?: ErrorBody;
 }
 
 export interface ExpenseParseRequest {
   text: string;
+  mode?: 'single' | 'multi'; // multi: every transaction in the text
+  image?: {
+    data: string; // base64 or data URL
+    mime_type?: string;
+  };
   context?: {
     location?: string;
+    locale?: string; // BCP 47, e.g. "en-CA"; disambiguates $, ¥ and kr
+    home_currency?: string; // ISO 4217; adds `converted` to the result
     timestamp?: string;
     image_metadata?: {
       width?: number;
       height?: number;
       format?: string;
     };
-    timezone_offset?: number;
+    timezone_offset?: number; // minutes ahead of UTC, e.g. 480 for UTC+8
+    timezone?: string; // IANA zone, e.g. "Asia/Shanghai"; preferred over timezone_offset
+  };
+}
+
+// Parsed amount expressed in the device's home currency
+export interface ExpenseConversion {
+  currency: string;
+  amount: string;
+  amount_minor: number;
+  rate: number; // home currency units per unit of the parsed currency
+  rate_date: string; // YYYY-MM-DD of the rates used
+}
+
+// Where the UTC offset applied to a parsed timestamp came from, in priority order
+export type TimezoneSource =
+  | 'explicit' // the timestamp itself carried an offset
+  | 'context_timezone' // context.timezone (IANA zone)
+  | 'context_offset' // context.timezone_offset
+  | 'inferred' // zone the model inferred from the receipt content
+  | 'assumed_utc'; // nothing to go on
+
+export interface ExpenseParseData {
+  amount: string; // decimal string at the currency's precision, e.g. "12.50"
+  amount_minor?: number | null; // integer minor units, e.g. 1250; null if the currency is unknown
+  currency: string; // ISO 4217 code, XXX when unknown
+  merchant?: string | null; // canonical name when the merchant dictionary matches
+  merchant_raw?: string | null; // name as parsed
+  merchant_id?: string | null; // canonical merchant ID, null when unmatched
+  payment_method?: string | null;
+  payment_card?: string | null;
+  location?: string | null;
+  timestamp?: string | null; // ISO 8601, UTC
+  timestamp_local?: string | null; // local time with its UTC offset
+  confidence: number;
+  converted?: ExpenseConversion | null; // with context.home_currency; null when no rate is available
+  extensions: {
+    category?: string; // localized name of category_id
+    category_id?: string; // taxonomy or custom category ID
+    category_path?: string[]; // ancestor category IDs, root first
+    logo_key?: string; // logo of the canonical merchant
+    prompt_version?: string; // system prompt version used by the model
+    statement_format?: 'csv' | 'ofx' | 'qif' | 'camt053'; // statement imports only
+    direction?: 'debit' | 'credit'; // statement imports: money out or in
+    reference?: string; // statement imports: the bank's transaction ID
+    enriched?: boolean; // statement imports: merchant or category suggested by the model
+    tags?: string[];
+    description?: string;
+    parsed_at?: string;
+    source?: string; // 'openai_gpt', 'rule_based_fallback' or 'statement_import'
+    fallback_reason?: string;
+    original_text?: string;
+    original_currency?: string; // as parsed, when it could not be mapped to ISO 4217
+    timezone?: string; // IANA zone or UTC offset applied to the timestamp
+    timezone_source?: TimezoneSource;
+    input_type?: 'text' | 'image' | 'image+text';
+    provider?: string;
+    model?: string;
+    repaired_fields?: string[]; // fields fixed after failing validation
+  };
+}
+
+export interface CategoryDefinition {
+  id: string; // stable, e.g. "food_drink.coffee"; custom categories start with "custom."
+  parent: string | null;
+  names: { [locale: string]: string }; // BCP 47 language tag → name; "en" is required
+}
+
+export interface MerchantDefinition {
+  id: string; // stable, e.g. "starbucks"
+  name: string; // canonical display name
+  aliases: string[]; // raw names seen on receipts, matched after normalization
+  category_id?: string | null; // default category for the merchant
+  logo_key?: string | null;
+}
+
+// Merchant and category the model suggests for a bank statement description
+export interface EnrichmentSuggestion {
+  merchant: string | null;
+  category_id: string | null;
+}
+
+export interface StatementImportResponse {
+  success: boolean;
+  data?: {
+    format: 'csv' | 'ofx' | 'qif' | 'camt053';
+    preset: string | null;
+    transactions: ExpenseParseData[];
+    count: number;
+    skipped: number; // rows without a readable date or amount
+    enriched: number;
+    enrichment_error?: string; // enrichment failed; transactions are returned unenriched
+  };
+  error?: ErrorBody;
+}
+
+// Parsed fields a user can correct
+export interface FeedbackFields {
+  amount?: string;
+  currency?: string;
+  merchant?: string | null;
+  payment_method?: string | null;
+  payment_card?: string | null;
+  location?: string | null;
+  timestamp?: string | null;
+  category_id?: string | null;
+}
+
+export interface ParseFeedbackRequest {
+  text: string;
+  original: FeedbackFields; // what the parser returned
+  corrected: FeedbackFields; // only the fields the user changed
+  share?: boolean; // opt in to the shared correction pool
+  prompt_version?: string; // extensions.prompt_version of the corrected result
+}
+
+export interface PromptVersion {
+  id: string; // e.g. "v1"
+  system: string; // system prompt text
+  created_at: string;
+}
+
+export interface PromptRegistry {
+  active: string; // version served outside the experiment
+  versions: PromptVersion[];
+  experiment: {
+    name: string; // salts the device bucketing
+    variants: Array<{ version: string; percent: number }>;
+  } | null;
+}
+
+export interface DeviceCategoriesResponse {
+  success: boolean;
+  data?: {
+    device_id: string;
+    categories: CategoryDefinition[];
   };
+  error?: ErrorBody;
 }
 
 export interface ExpenseParseResponse {
+  success: boolean;
+  data?: ExpenseParseData;
+  error?: ErrorBody;
+}
+
+// One transaction found in a multi-transaction text
+export interface ExpenseTransaction extends ExpenseParseData {
+  // UTF-16 offsets of the transaction's excerpt in the input text; null when it could not be located
+  source_span: { start: number; end: number } | null;
+}
+
+export interface ExpenseParseListResponse {
   success: boolean;
   data?: {
-    amount: string;
-    currency: string;
-    merchant?: string;
-    payment_method?: string;
-    payment_card?: string;
-    location?: string;
-    timestamp?: string;
-    confidence: number;
-    extensions?: {
-      category?: string;
-      tags?: string[];
-      description?: string;
-    };
+    mode: 'multi';
+    transactions: ExpenseTransaction[];
+    count: number;
   };
+  error?: ErrorBody;
+}
+
+export interface ExpenseBatchParseRequest {
+  items: ExpenseParseRequest[];
+}
+
+export interface ExpenseBatchParseItemResult {
+  index: number;
+  success: boolean;
+  data?: ExpenseParseResponse['data'];
   error?: string;
+  code?: string;
+  details?: unknown; // validation issues of an invalid item
+}
+
+export interface ExpenseBatchParseResponse {
+  success: boolean;
+  data?: {
+    results: ExpenseBatchParseItemResult[];
+    summary: {
+      total: number;
+      succeeded: number;
+      failed: number;
+    };
+  };
+  error?: ErrorBody;
 }
 
 // Security types
@@ -93,12 +353,28 @@ export interface RequestHeaders {
   'x-device-id': string;
   'x-timestamp': string;
   'x-signature': string;
+  'x-nonce'?: string;
+  'x-signature-version'?: string;
   'x-device-token'?: string;
 }
 
+// Claims of the HS256 device token (JWT) issued at registration
+export interface DeviceTokenPayload {
+  sub: string; // device ID
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+  jti: string; // token ID, used for revocation
+}
+
 export interface DeviceInfo {
   device_id: string;
   key_seed: string;
+  key_expires_at?: string;
+  previous_key_seed?: string;
+  previous_key_valid_until?: string;
+  token_id?: string;
+  previous_token_id?: string; // accepted until previous_key_valid_until
+  token_expires_at?: number; // seconds since epoch, mirrors the token's exp claim
   registered_at: string;
   last_seen: string;
   request_count: number;
@@ -111,9 +387,13 @@ export interface DeviceInfo {
 }
 
 // OpenAI API types
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
 export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string | OpenAIContentPart[];
 }
 
 export interface OpenAIRequest {
@@ -146,6 +426,14 @@ export interface OpenAIResponse {
   };
 }
 
+// Error envelope of every failed response: { success: false, error: ErrorBody }
+export interface ErrorBody {
+  code: string; // see ERROR_CATALOG
+  message: string;
+  details: unknown; // validation issues, retry_after_seconds, or null
+  request_id: string;
+}
+
 // Error types
 export class APIError extends Error {
   constructor(
@@ -166,15 +454,43 @@ export class ValidationError extends APIError {
 }
 
 export class AuthenticationError extends APIError {
-  constructor(message: string) {
-    super(message, 401, 'AUTHENTICATION_ERROR');
+  constructor(message: string, code: string = 'AUTHENTICATION_ERROR') {
+    super(message, 401, code);
     this.name = 'AuthenticationError';
   }
 }
 
+export class ForbiddenError extends APIError {
+  constructor(message: string, code: string = 'FORBIDDEN') {
+    super(message, 403, code);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class ConflictError extends APIError {
+  constructor(message: string, code: string = 'CONFLICT') {
+    super(message, 409, code);
+    this.name = 'ConflictError';
+  }
+}
+
+export class NotFoundError extends APIError {
+  constructor(message: string, code: string = 'NOT_FOUND') {
+    super(message, 404, code);
+    this.name = 'NotFoundError';
+  }
+}
+
 export class RateLimitError extends APIError {
-  constructor(message: string) {
+  constructor(message: string, public retryAfterSeconds?: number) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED');
     this.name = 'RateLimitError';
   }
 }
+
+export class QuotaExceededError extends APIError {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message, 429, 'TOKEN_QUOTA_EXCEEDED');
+    this.name = 'QuotaExceededError';
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AttestationService } from '../src/attestation';
+import { Env, RegistrationAttestation } from '../src/types';
+import { createEnv, sha256Hex, registerDevice, signedRequest, request } from './helpers';
+
+const DEVICE_ID = 'device-1';
+
+/**
+ * Brute-force a proof-of-work solution; difficulty 8 takes ~256 hashes
+ */
+async function solve(challenge: string, difficulty: number): Promise<RegistrationAttestation> {
+  for (let solution = 0; ; solution++) {
+    const digest = await sha256Hex(`${challenge}:${DEVICE_ID}:${solution}`);
+    const bits = parseInt(digest.slice(0, 8), 16).toString(2).padStart(32, '0');
+    if (!bits.slice(0, difficulty).includes('1')) {
+      return { type: 'proof_of_work', challenge, solution: String(solution) };
+    }
+  }
+}
+
+describe('AttestationService', () => {
+  let env: Env;
+  let attestation: AttestationService;
+
+  beforeEach(() => {
+    env = createEnv({ REGISTRATION_CHALLENGE_DIFFICULTY: '8' });
+    attestation = new AttestationService(env);
+  });
+
+  it('requires an attestation by default', async () => {
+    await expect(attestation.verifyRegistration(undefined, DEVICE_ID, 'ios'))
+      .rejects.toMatchObject({ code: 'ATTESTATION_REQUIRED', statusCode: 401 });
+  });
+
+  it('accepts no attestation only when explicitly disabled', async () => {
+    env.REGISTRATION_ATTESTATION_REQUIRED = 'false';
+    await expect(attestation.verifyRegistration(undefined, DEVICE_ID, 'ios')).resolves.toBeUndefined();
+
+    env.REGISTRATION_ATTESTATION_REQUIRED = 'yes';
+    await expect(attestation.verifyRegistration(undefined, DEVICE_ID, 'ios')).rejects.toMatchObject({ code: 'ATTESTATION_REQUIRED' });
+  });
+
+  it('accepts a solved challenge once', async () => {
+    const { challenge, difficulty } = await attestation.issueChallenge();
+    expect(difficulty).toBe(8);
+    const solved = await solve(challenge, difficulty);
+
+    await expect(attestation.verifyRegistration(solved, DEVICE_ID, 'ios')).resolves.toBeUndefined();
+    await expect(attestation.verifyRegistration(solved, DEVICE_ID, 'ios')).rejects.toMatchObject({ code: 'CHALLENGE_REUSED' });
+  });
+
+  it('rejects a solution made for another device', async () => {
+    const { challenge, difficulty } = await attestation.issueChallenge();
+    const solved = await solve(challenge, difficulty);
+    // A solution for DEVICE_ID passes for another ID with probability 2^-8; pick one that does not
+    let otherDevice = 'device-2';
+    for (let i = 3; (await sha256Hex(`${challenge}:${otherDevice}:${solved.solution}`)).startsWith('00'); i++) {
+      otherDevice = `device-${i}`;
+    }
+
+    await expect(attestation.verifyRegistration(solved, otherDevice, 'ios')).rejects.toMatchObject({ code: 'ATTESTATION_FAILED' });
+  });
+
+  it('rejects a challenge with a raised difficulty or a forged signature', async () => {
+    const { challenge } = await attestation.issueChallenge();
+    const [nonce, expires, , mac] = challenge.split('.');
+
+    await expect(attestation.verifyRegistration(
+      { type: 'proof_of_work', challenge: `${nonce}.${expires}.0.${mac}`, solution: '0' }, DEVICE_ID, 'ios'
+    )).rejects.toMatchObject({ code: 'CHALLENGE_INVALID' });
+    await expect(attestation.verifyRegistration(
+      { type: 'proof_of_work', challenge: 'not-a-challenge', solution: '0' }, DEVICE_ID, 'ios'
+    )).rejects.toMatchObject({ code: 'CHALLENGE_INVALID' });
+  });
+
+  it('rejects an expired challenge', async () => {
+    vi.useFakeTimers();
+    try {
+      const { challenge, difficulty } = await attestation.issueChallenge();
+      const solved = await solve(challenge, difficulty);
+      vi.advanceTimersByTime(6 * 60_000);
+
+      await expect(attestation.verifyRegistration(solved, DEVICE_ID, 'ios')).rejects.toMatchObject({ code: 'CHALLENGE_EXPIRED' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects unknown attestation types', async () => {
+    const { challenge } = await attestation.issueChallenge();
+    await expect(attestation.verifyRegistration({ type: 'app_attest', challenge, token: 'x' }, DEVICE_ID, 'ios'))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
+
+describe('device registration', () => {
+  it('refuses an unproven re-registration without using up its challenge', async () => {
+    const env = createEnv({ REGISTRATION_CHALLENGE_DIFFICULTY: '8' });
+    const device = await registerDevice(env, DEVICE_ID);
+    const { challenge, difficulty } = await new AttestationService(env).issueChallenge();
+    const body = {
+      device_id: DEVICE_ID,
+      device_info: { model: 'iPhone', os_version: '17.0', app_version: '1.0', platform: 'ios' },
+      attestation: await solve(challenge, difficulty)
+    };
+
+    const unproven = await request(env, 'POST', '/api/v1/device/register', {
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    expect(unproven.status).toBe(409);
+
+    const proven = await signedRequest(env, device, 'POST', '/api/v1/device/register', body);
+    expect(proven.status).toBe(200);
+  });
+});
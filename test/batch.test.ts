@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Env } from '../src/types';
+import { createEnv, registerDevice, signedRequest, chatCompletion, TestDevice } from './helpers';
+
+const RESULT = { amount: '4.50', currency: 'USD', merchant: 'Blue Bottle', confidence: 0.9, extensions: { category_id: 'food_drink.coffee' } };
+
+describe('POST /api/v1/parse/expenses/batch', () => {
+  let env: Env;
+  let device: TestDevice;
+
+  beforeEach(async () => {
+    env = createEnv({ BATCH_ITEMS_PER_HOUR: '5' });
+    device = await registerDevice(env);
+    vi.stubGlobal('fetch', vi.fn(async () => chatCompletion(RESULT)));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const batch = (items: unknown[]) => signedRequest(env, device, 'POST', '/api/v1/parse/expenses/batch', { items });
+
+  it('validates each item on its own, parsing the valid ones', async () => {
+    const response = await batch([
+      { text: 'Blue Bottle $4.50' },
+      { text: '' },
+      { text: 'Two coffees', mode: 'multi' },
+      { text: 'Blue Bottle $4.50', context: { timezone: 'Mars/Olympus' } }
+    ]);
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json() as { data: { results: Array<{ index: number; success: boolean; code?: string }>; summary: object } };
+    expect(data.results.map(({ index, success, code }) => ({ index, success, code }))).toEqual([
+      { index: 0, success: true, code: undefined },
+      { index: 1, success: false, code: 'VALIDATION_ERROR' },
+      { index: 2, success: false, code: 'VALIDATION_ERROR' },
+      { index: 3, success: false, code: 'VALIDATION_ERROR' }
+    ]);
+    expect(data.summary).toEqual({ total: 4, succeeded: 1, failed: 3 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('charges the hourly batch bucket per valid item', async () => {
+    const first = await batch([{ text: 'a $1' }, { text: 'b $2' }, { text: 'c $3' }, { text: '' }]);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('RateLimit-Limit')).toBe('5');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('2');
+
+    const second = await batch([{ text: 'd $4' }, { text: 'e $5' }, { text: 'f $6' }]);
+    expect(second.status).toBe(429);
+    expect(second.headers.get('Retry-After')).not.toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    const third = await batch([{ text: 'g $7' }, { text: 'h $8' }]);
+    expect(third.status).toBe(200);
+    expect(third.headers.get('RateLimit-Remaining')).toBe('0');
+  });
+
+  it('rejects batches over BATCH_MAX_ITEMS as a whole', async () => {
+    env.BATCH_MAX_ITEMS = '2';
+    const response = await batch([{ text: 'a $1' }, { text: 'b $2' }, { text: 'c $3' }]);
+
+    expect(response.status).toBe(400);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
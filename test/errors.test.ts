@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ERROR_CATALOG, describeError } from '../src/errors';
+import { APIError, QuotaExceededError, ValidationError } from '../src/types';
+import { createEnv, registerDevice, request, signedRequest } from './helpers';
+
+interface Envelope {
+  success: boolean;
+  error: { code: string; message: string; details: unknown; request_id: string };
+}
+
+describe('describeError', () => {
+  const env = createEnv();
+
+  it('reports validation issues as details', () => {
+    const parsed = z.object({ amount: z.string() }).safeParse({ amount: 12 });
+    const { status, body } = describeError(parsed.success ? null : parsed.error, env, 'req-1');
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: 'VALIDATION_ERROR', message: 'Invalid request data', request_id: 'req-1' });
+    expect(body.details).toEqual([expect.objectContaining({ path: ['amount'] })]);
+  });
+
+  it('uses the catalog status over the error status', () => {
+    expect(describeError(new APIError('Upstream said 401', 401, 'AI_API_ERROR'), env, 'req-1').status).toBe(502);
+    expect(describeError(new ValidationError('Bad'), env, 'req-1').status).toBe(400);
+  });
+
+  it('keeps the status of uncatalogued codes, or 500 when it is not an error status', () => {
+    expect(describeError(new APIError('Gone', 410, 'GONE'), env, 'req-1').status).toBe(410);
+    expect(describeError(new APIError('Odd', 204, 'ODD'), env, 'req-1').status).toBe(500);
+  });
+
+  it('adds retry_after_seconds for quota errors', () => {
+    const { status, body } = describeError(new QuotaExceededError('Daily AI token quota exhausted', 3600), env, 'req-1');
+    expect(status).toBe(429);
+    expect(body.details).toEqual({ retry_after_seconds: 3600 });
+  });
+
+  it('hides 5xx messages in production only', () => {
+    const error = new Error('KV exploded at line 12');
+    expect(describeError(error, env, 'req-1').body.message).toBe('KV exploded at line 12');
+    expect(describeError(error, createEnv({ ENVIRONMENT: 'production' }), 'req-1').body).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: ERROR_CATALOG.INTERNAL_ERROR!.description
+    });
+  });
+});
+
+describe('error envelope', () => {
+  it('answers unknown routes with NOT_FOUND and the request ID', async () => {
+    const response = await request(createEnv(), 'GET', '/api/v1/nope', { headers: { 'cf-ray': 'ray-123' } });
+    expect(response.status).toBe(404);
+    expect(response.headers.get('x-request-id')).toBe('ray-123');
+    expect(await response.json()).toEqual({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'The requested endpoint does not exist', details: null, request_id: 'ray-123' }
+    });
+  });
+
+  it('reports the failing middleware check by code', async () => {
+    const response = await request(createEnv(), 'POST', '/api/v1/parse/expense', { body: '{}' });
+    expect(response.status).toBe(401);
+    expect((await response.json() as Envelope).error.code).toBe('SIGNATURE_MISSING');
+  });
+
+  it('reports handler validation errors with their issues', async () => {
+    const env = createEnv();
+    const device = await registerDevice(env);
+    const response = await signedRequest(env, device, 'POST', '/api/v1/parse/expense', { text: '' });
+    const { error } = await response.json() as Envelope;
+    expect(response.status).toBe(400);
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.details).toEqual(expect.arrayContaining([expect.objectContaining({ path: ['text'] })]));
+  });
+
+  it('sets Retry-After on rate-limited requests', async () => {
+    const env = createEnv({ RATE_LIMIT_PER_MINUTE: '1' });
+    const device = await registerDevice(env);
+    await signedRequest(env, device, 'GET', `/api/v1/device/${device.deviceId}/categories`);
+    const response = await signedRequest(env, device, 'GET', `/api/v1/device/${device.deviceId}/categories`);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect((await response.json() as Envelope).error).toMatchObject({
+      code: 'RATE_LIMIT_EXCEEDED',
+      details: { retry_after_seconds: 60 }
+    });
+  });
+
+  it('publishes the catalog', async () => {
+    const response = await request(createEnv(), 'GET', '/api/v1/errors');
+    const { data } = await response.json() as { data: { codes: typeof ERROR_CATALOG } };
+    expect(data.codes.TOKEN_QUOTA_EXCEEDED).toEqual({ status: 429, description: expect.stringContaining('daily or monthly') });
+  });
+});
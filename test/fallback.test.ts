@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseExpenseOffline, normalizeAmount } from '../src/fallback';
+
+const parse = (text: string, context?: { locale?: string; location?: string }) =>
+  parseExpenseOffline({ text, context }, 'AI_API_ERROR');
+
+describe('normalizeAmount', () => {
+  it('reads comma and dot thousands separators', () => {
+    expect(normalizeAmount('2,799')).toBe('2799');
+    expect(normalizeAmount('1,234.56')).toBe('1234.56');
+    expect(normalizeAmount('1.234,56')).toBe('1234.56');
+    expect(normalizeAmount('1.234.567')).toBe('1234567');
+  });
+
+  it('reads a decimal comma', () => {
+    expect(normalizeAmount('12,50')).toBe('12.50');
+  });
+});
+
+describe('parseExpenseOffline', () => {
+  it('extracts amount, currency and merchant from a short text', () => {
+    const result = parse('£9.65 Costa Coffee');
+    expect(result).toMatchObject({ amount: '9.65', currency: 'GBP', merchant: 'Costa Coffee' });
+    expect(result?.extensions.source).toBe('rule_based_fallback');
+    expect(result?.extensions.fallback_reason).toBe('AI_API_ERROR');
+  });
+
+  it('reads dot thousands with comma decimals', () => {
+    expect(parse('€1.234,56 Zara')).toMatchObject({ amount: '1234.56', currency: 'EUR' });
+  });
+
+  it('reads "1.234" as thousands for two-decimal currencies', () => {
+    expect(parse('€1.234 Zara')).toMatchObject({ amount: '1234.00', currency: 'EUR' });
+  });
+
+  it('reads "1.234" as three decimals for KWD', () => {
+    expect(parse('KWD 1.234 Sultan Center')).toMatchObject({ amount: '1.234', currency: 'KWD' });
+  });
+
+  it('recognizes any ISO code, in upper case only', () => {
+    expect(parse('PLN 45.00 Żabka')).toMatchObject({ amount: '45.00', currency: 'PLN' });
+    expect(parse('top 3 picks for £45.00')).toMatchObject({ amount: '45.00', currency: 'GBP' });
+  });
+
+  it('gives no amount for "1.234" when the currency is unknown', () => {
+    expect(parse('1.234 at the shop')).toBeNull();
+  });
+
+  it('uses the labeled amount of Chinese texts', () => {
+    expect(parse('商户：星巴克\n金额：25.00')).toMatchObject({ amount: '25.00', currency: 'CNY', merchant: '星巴克' });
+  });
+
+  it('caps the confidence', () => {
+    const result = parse('交易时间：2024-03-14 08:12\n商户：星巴克\n金额：25.00\n支付宝');
+    expect(result?.confidence).toBeLessThanOrEqual(0.45);
+    expect(result?.payment_method).toBe('Alipay');
+  });
+
+  it('returns null without an amount', () => {
+    expect(parse('Thanks for shopping with us')).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FeedbackService, compareFields, selectExamples } from '../src/feedback';
+import { SecurityManager } from '../src/security';
+import { Env } from '../src/types';
+import { createEnv } from './helpers';
+
+const SMS = 'Your card ending 1234 was charged GBP 12.50 at TESCO STORES on 14/03';
+
+describe('FeedbackService', () => {
+  let env: Env;
+  let feedback: FeedbackService;
+
+  beforeEach(() => {
+    env = createEnv();
+    feedback = new FeedbackService(env);
+  });
+
+  it('keeps unshared corrections to the device', async () => {
+    await feedback.record('device-1', SMS, { merchant: 'TESCO STORES' }, { merchant: 'Tesco' }, false);
+
+    expect(await feedback.examplesFor('device-1')).toHaveLength(1);
+    expect(await feedback.examplesFor('device-2')).toEqual([]);
+  });
+
+  it('offers shared corrections to other devices', async () => {
+    await feedback.record('device-1', SMS, { merchant: 'TESCO STORES' }, { merchant: 'Tesco' }, true);
+    await feedback.record('device-3', `${SMS}.`, { amount: '12.50' }, { amount: '12.05' }, true);
+
+    const examples = await feedback.examplesFor('device-2');
+    expect(examples).toHaveLength(2);
+    expect(examples.map(entry => entry.expected)).toEqual(expect.arrayContaining([{ amount: '12.05' }, { merchant: 'Tesco' }]));
+  });
+
+  it('erases shared corrections with the device', async () => {
+    await feedback.record('device-1', SMS, { merchant: 'TESCO STORES' }, { merchant: 'Tesco' }, true);
+    await feedback.record('device-3', SMS, { amount: '12.50' }, { amount: '12.05' }, true);
+    expect(await feedback.examplesFor('device-2')).toHaveLength(2); // snapshot now cached
+
+    await new SecurityManager(env).purgeDeviceData('device-1');
+    await feedback.invalidateSharedPool();
+
+    expect((await feedback.examplesFor('device-2')).map(entry => entry.expected)).toEqual([{ amount: '12.05' }]);
+  });
+});
+
+describe('compareFields', () => {
+  it('marks corrected fields false and confirmed fields true', () => {
+    expect(compareFields(
+      { amount: '12.5', merchant: 'TESCO STORES', currency: 'GBP' },
+      { amount: '12.50', merchant: 'Tesco' }
+    )).toEqual({ amount: true, currency: true, merchant: false });
+  });
+});
+
+describe('selectExamples', () => {
+  it('picks texts in the same format regardless of digits', () => {
+    const entries = [
+      { text: 'Lunch with Sam', expected: {}, corrected_fields: [], created_at: '2024-03-14T00:00:00Z' },
+      { text: SMS, expected: { merchant: 'Tesco' }, corrected_fields: ['merchant' as const], created_at: '2024-03-14T00:00:00Z' }
+    ];
+    const examples = selectExamples(entries, 'Your card ending 9876 was charged GBP 3.20 at TESCO STORES on 02/04');
+    expect(examples.map(entry => entry.text)).toEqual([SMS]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FxRateService, parseRatesUpload } from '../src/fx';
+import { normalizeMoney } from '../src/currency';
+import { Env, ExpenseParseData } from '../src/types';
+import { createEnv, request } from './helpers';
+
+function expense(amount: string, currency: string, timestampLocal: string | null = '2024-03-14T09:30:00'): ExpenseParseData {
+  const money = normalizeMoney(amount, currency);
+  return { amount: money.amount, amount_minor: money.amount_minor, currency: money.currency, timestamp_local: timestampLocal } as ExpenseParseData;
+}
+
+describe('FxRateService', () => {
+  let env: Env;
+  let fx: FxRateService;
+
+  beforeEach(async () => {
+    env = createEnv();
+    fx = new FxRateService(env);
+    await fx.importRates('EUR', [
+      { date: '2024-03-13', currency: 'USD', rate: 1.1 },
+      { date: '2024-03-13', currency: 'GBP', rate: 0.86 },
+      { date: '2024-03-13', currency: 'JPY', rate: 160 },
+      { date: '2024-03-13', currency: 'KWD', rate: 0.33 }
+    ]);
+  });
+
+  it('converts with the latest rates on or before the transaction date', async () => {
+    const { converted } = await new FxRateService(env).convertResult(expense('12.50', 'GBP'), 'USD');
+    expect(converted).toEqual({ currency: 'USD', amount: '15.99', amount_minor: 1599, rate: 1.27906977, rate_date: '2024-03-13' });
+  });
+
+  it('rounds to the minor unit of the home currency', async () => {
+    await expect(fx.convertResult(expense('1234', 'JPY'), 'GBP')).resolves.toMatchObject({ converted: { amount: '6.63', amount_minor: 663 } });
+    await expect(fx.convertResult(expense('12.50', 'GBP'), 'KWD')).resolves.toMatchObject({ converted: { amount: '4.797', amount_minor: 4797 } });
+    await expect(fx.convertResult(expense('10.00', 'GBP'), 'JPY')).resolves.toMatchObject({ converted: { amount: '1860', amount_minor: 1860 } });
+  });
+
+  it('rounds exact halves up without binary floating-point error', async () => {
+    // 1.15 × 1.1 = 1.265, which floating point computes as 1.2649999…
+    await expect(fx.convertResult(expense('1.15', 'EUR'), 'USD')).resolves.toMatchObject({ converted: { amount: '1.27', amount_minor: 127 } });
+  });
+
+  it('reports no conversion without a rate', async () => {
+    await expect(fx.convertResult(expense('10.00', 'GBP', '2024-03-12T10:00:00'), 'USD')).resolves.toMatchObject({ converted: null });
+    await expect(fx.convertResult(expense('10.00', 'CHF'), 'USD')).resolves.toMatchObject({ converted: null });
+    await expect(fx.convertResult(expense('10.00', 'XYZ'), 'USD')).resolves.toMatchObject({ converted: null });
+    await expect(fx.convertResult(expense('10.00', 'GBP'), undefined)).resolves.not.toHaveProperty('converted');
+  });
+
+  it('converts a currency to itself without rates', async () => {
+    await expect(fx.convertResult(expense('10.00', 'CHF'), 'CHF')).resolves.toMatchObject({ converted: { amount: '10.00', rate: 1 } });
+  });
+
+  it('merges a day uploaded again with the same base', async () => {
+    await fx.importRates('EUR', [{ date: '2024-03-13', currency: 'CHF', rate: 0.96 }]);
+    const service = new FxRateService(env);
+    await expect(service.findRate('EUR', 'CHF', '2024-03-13')).resolves.toEqual({ rate: 0.96, date: '2024-03-13' });
+    await expect(service.findRate('EUR', 'USD', '2024-03-13')).resolves.toEqual({ rate: 1.1, date: '2024-03-13' });
+  });
+
+  it('rejects a day uploaded again with another base, storing nothing', async () => {
+    await expect(fx.importRates('USD', [
+      { date: '2024-03-14', currency: 'EUR', rate: 0.91 },
+      { date: '2024-03-13', currency: 'EUR', rate: 0.91 }
+    ])).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+
+    const service = new FxRateService(env);
+    await expect(service.findRate('USD', 'EUR', '2024-03-14')).resolves.toEqual({ rate: 1 / 1.1, date: '2024-03-13' });
+    expect(await env.CACHE.get('fx:rates:2024-03-14')).toBeNull();
+  });
+});
+
+describe('parseRatesUpload', () => {
+  it('reads CSV and JSON uploads', () => {
+    expect(parseRatesUpload('date,currency,rate\n2024-03-13,gbp,0.86\n', 'text/csv'))
+      .toEqual([{ date: '2024-03-13', currency: 'GBP', rate: 0.86 }]);
+    expect(parseRatesUpload(JSON.stringify({ rates: [{ date: '2024-03-13', currency: 'JPY', rate: 160 }] }), 'application/json'))
+      .toEqual([{ date: '2024-03-13', currency: 'JPY', rate: 160 }]);
+  });
+
+  it('rejects bad rows', () => {
+    expect(() => parseRatesUpload('date,currency,rate\n2024-02-30x,GBP,0.86', 'text/csv')).toThrow('invalid date');
+    expect(() => parseRatesUpload('date,currency,rate\n2024-03-13,ABC,0.86', 'text/csv')).toThrow('unknown currency');
+    expect(() => parseRatesUpload('date,currency,rate\n2024-03-13,GBP,-1', 'text/csv')).toThrow('positive number');
+    expect(() => parseRatesUpload('currency,rate\nGBP,0.86', 'text/csv')).toThrow('header');
+  });
+});
+
+describe('POST /api/v1/fx/rates', () => {
+  it('answers 409 for a base mismatch', async () => {
+    const env = createEnv();
+    const upload = (base: string) => request(env, 'POST', `/api/v1/fx/rates?base=${base}`, {
+      headers: { 'content-type': 'text/csv', 'x-admin-key': 'test-admin-key' },
+      body: 'date,currency,rate\n2024-03-13,GBP,0.86'
+    });
+
+    expect((await upload('EUR')).status).toBe(200);
+    const conflict = await upload('USD');
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ error: { code: 'CONFLICT' } });
+  });
+});
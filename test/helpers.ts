@@ -0,0 +1,211 @@
+import app from '../src/index';
+import { SecurityManager, canonicalRequest } from '../src/security';
+import { Env } from '../src/types';
+
+/**
+ * In-memory KVNamespace covering the calls the worker makes
+ */
+export function createKV(): KVNamespace {
+  const store = new Map<string, string>();
+  const metadata = new Map<string, unknown>();
+  const kv = {
+    async get(key: string, type?: string) {
+      const value = store.get(key) ?? null;
+      return value !== null && type === 'json' ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string, options: { metadata?: unknown } = {}) {
+      store.set(key, value);
+      metadata.set(key, options.metadata ?? null);
+    },
+    async delete(key: string) {
+      store.delete(key);
+      metadata.delete(key);
+    },
+    async list(options: { prefix?: string } = {}) {
+      const keys = Array.from(store.keys())
+        .filter(name => name.startsWith(options.prefix ?? ''))
+        .map(name => ({ name, metadata: metadata.get(name) }));
+      return { keys, list_complete: true, cacheStatus: null };
+    }
+  };
+  return kv as unknown as KVNamespace;
+}
+
+/**
+ * Durable Object namespace running one `create(state)` object per name, on
+ * in-memory storage. Each object handles one request at a time, as the
+ * runtime's input gates ensure. Counts the requests made to its objects.
+ */
+export function createDurableObjectNamespace(
+  create: (state: DurableObjectState) => DurableObject
+): DurableObjectNamespace & { requests: number } {
+  const objects = new Map<string, { object: DurableObject; queue: Promise<unknown> }>();
+  const namespace = {
+    requests: 0,
+    idFromName: (name: string) => name,
+    get(name: string) {
+      let entry = objects.get(name);
+      if (!entry) {
+        entry = { object: create({ storage: createStorage() } as unknown as DurableObjectState), queue: Promise.resolve() };
+        objects.set(name, entry);
+      }
+      const target = entry;
+      return {
+        fetch: (url: string, init?: RequestInit) => {
+          namespace.requests += 1;
+          const response = target.queue.then(() => target.object.fetch!(new Request(url, init)));
+          target.queue = response.catch(() => undefined);
+          return response;
+        }
+      };
+    }
+  };
+  return namespace as unknown as DurableObjectNamespace & { requests: number };
+}
+
+function createStorage() {
+  const store = new Map<string, unknown>();
+  return {
+    get: async (key: string) => store.get(key),
+    put: async (key: string, value: unknown) => void store.set(key, structuredClone(value)),
+    delete: async (keys: string | string[]) => [keys].flat().forEach(key => store.delete(key)),
+    deleteAll: async () => store.clear(),
+    async list(options: { start?: string; end?: string } = {}) {
+      return new Map(Array.from(store).sort(([a], [b]) => a < b ? -1 : 1).filter(([key]) =>
+        (options.start === undefined || key >= options.start) && (options.end === undefined || key < options.end)
+      ));
+    }
+  };
+}
+
+export function createEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    MASTER_KEY_SEED: 'test-master-seed',
+    JWT_SECRET: 'test-jwt-secret',
+    ADMIN_API_KEY: 'test-admin-key',
+    OPENAI_API_KEY: 'test-openai-key',
+    OPENAI_BASE_URL: 'https://openai.invalid/v1',
+    ENVIRONMENT: 'test',
+    API_VERSION: '1.0.0',
+    RATE_LIMIT_PER_MINUTE: '60',
+    REQUEST_TIMEOUT_SECONDS: '30',
+    SIGNATURE_VALIDITY_MINUTES: '5',
+    CACHE: createKV(),
+    RATE_LIMIT: createKV(),
+    ...overrides
+  };
+}
+
+/**
+ * Base64 HMAC-SHA256, as clients sign requests
+ */
+export async function hmac(key: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+  return btoa(String.fromCharCode(...signature));
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+  return Array.from(digest).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export interface TestDevice {
+  deviceId: string;
+  keySeed: string;
+  token: string;
+}
+
+/**
+ * Store a registered device the way the registration endpoint does
+ */
+export async function registerDevice(env: Env, deviceId: string = 'device-1'): Promise<TestDevice> {
+  const security = new SecurityManager(env);
+  const issued = await security.generateDeviceToken(deviceId);
+  const keySeed = await security.generateKeySeed(deviceId);
+  await security.storeDeviceInfo({
+    device_id: deviceId,
+    key_seed: keySeed,
+    key_expires_at: new Date(Date.now() + 3600_000).toISOString(),
+    token_id: issued.payload.jti,
+    token_expires_at: issued.payload.exp,
+    registered_at: new Date().toISOString(),
+    last_seen: new Date().toISOString(),
+    request_count: 0,
+    device_info: { model: 'iPhone', os_version: '17.0', app_version: '1.0', platform: 'ios' }
+  });
+  return { deviceId, keySeed, token: issued.token };
+}
+
+export interface SignOptions {
+  version?: 1 | 2;
+  nonce?: string | null; // null signs without a nonce, as legacy v1 clients do
+  timestamp?: number;
+  keySeed?: string; // sign with another key than the device's
+  token?: string | null; // send another token than the device's, or none (null)
+  headers?: { [name: string]: string };
+}
+
+/**
+ * Send a request through the app, signed by `device` and carrying its token
+ */
+export async function signedRequest(
+  env: Env,
+  device: TestDevice,
+  method: string,
+  path: string,
+  body: unknown = undefined,
+  options: SignOptions = {}
+): Promise<Response> {
+  const url = `https://api.test${path}`;
+  const raw = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+  const timestamp = String(options.timestamp ?? Date.now());
+  const nonce = options.nonce === undefined ? crypto.randomUUID().replace(/-/g, '') : options.nonce;
+  const token = options.token === undefined ? device.token : options.token;
+  const headers: { [name: string]: string } = {
+    'content-type': typeof body === 'string' ? 'text/plain' : 'application/json',
+    'x-device-id': device.deviceId,
+    'x-timestamp': timestamp,
+    ...(token !== null ? { 'x-device-token': token } : {}),
+    ...(nonce !== null ? { 'x-nonce': nonce } : {}),
+    ...options.headers
+  };
+
+  const bodyHash = await sha256Hex(raw);
+  const keySeed = options.keySeed ?? device.keySeed;
+  if (options.version === 2) {
+    headers['x-signature-version'] = '2';
+    headers['x-signature'] = await hmac(keySeed, canonicalRequest({ method, url, headers }, bodyHash));
+  } else {
+    headers['x-signature'] = await hmac(keySeed, `${timestamp}${device.deviceId}${nonce ?? ''}${bodyHash}`);
+  }
+
+  return app.request(url, { method, headers, body: method === 'GET' ? undefined : raw }, env, EXECUTION_CONTEXT);
+}
+
+const EXECUTION_CONTEXT = {
+  waitUntil: (promise: Promise<unknown>) => void promise.catch(() => undefined),
+  passThroughOnException: () => undefined
+} as unknown as ExecutionContext;
+
+/**
+ * Send an unsigned request through the app
+ */
+export async function request(env: Env, method: string, path: string, init: RequestInit = {}): Promise<Response> {
+  return app.request(`https://api.test${path}`, { method, ...init }, env, EXECUTION_CONTEXT);
+}
+
+/**
+ * Chat completion response of an OpenAI-compatible provider
+ */
+export function chatCompletion(content: unknown, totalTokens: number = 100): Response {
+  return Response.json({
+    id: 'chatcmpl-test',
+    object: 'chat.completion',
+    created: 0,
+    model: 'gpt-test',
+    choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(content) }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: totalTokens - 20, completion_tokens: 20, total_tokens: totalTokens }
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { validateReceiptImage, bytesToBase64 } from '../src/image';
+
+const MAX_BYTES = 1024;
+
+const image = (...bytes: number[]) => bytesToBase64(new Uint8Array([...bytes, 0, 0, 0, 0]));
+
+const JPEG = image(0xff, 0xd8, 0xff, 0xe0);
+const PNG = image(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+const GIF = image(0x47, 0x49, 0x46, 0x38, 0x39, 0x61);
+const WEBP = image(0x52, 0x49, 0x46, 0x46, 0x10, 0x00, 0x00, 0x00, 0x57, 0x45, 0x42, 0x50);
+
+describe('validateReceiptImage', () => {
+  it('detects the format from the magic bytes', () => {
+    expect(validateReceiptImage(JPEG, undefined, MAX_BYTES)).toMatchObject({ mime_type: 'image/jpeg', format: 'jpeg' });
+    expect(validateReceiptImage(PNG, undefined, MAX_BYTES)).toMatchObject({ mime_type: 'image/png', format: 'png' });
+    expect(validateReceiptImage(GIF, undefined, MAX_BYTES)).toMatchObject({ mime_type: 'image/gif', format: 'gif' });
+    expect(validateReceiptImage(WEBP, undefined, MAX_BYTES)).toMatchObject({ mime_type: 'image/webp', format: 'webp' });
+  });
+
+  it('accepts data URLs and a matching declared type', () => {
+    expect(validateReceiptImage(`data:image/png;base64,${PNG}`, undefined, MAX_BYTES))
+      .toMatchObject({ mime_type: 'image/png', data: PNG });
+    expect(validateReceiptImage(JPEG, 'IMAGE/JPEG', MAX_BYTES)).toMatchObject({ mime_type: 'image/jpeg' });
+  });
+
+  it('rejects content that does not match the declared type', () => {
+    expect(() => validateReceiptImage(PNG, 'image/jpeg', MAX_BYTES)).toThrow('does not match declared type');
+    expect(() => validateReceiptImage(`data:image/gif;base64,${WEBP}`, undefined, MAX_BYTES)).toThrow('does not match');
+  });
+
+  it('rejects unsupported or truncated signatures', () => {
+    const pdf = bytesToBase64(new TextEncoder().encode('%PDF-1.7'));
+    expect(() => validateReceiptImage(pdf, 'image/png', MAX_BYTES)).toThrow('Unsupported image format');
+    // RIFF container that is not WebP (a WAV file)
+    expect(() => validateReceiptImage(image(0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x41, 0x56, 0x45), undefined, MAX_BYTES))
+      .toThrow('Unsupported image format');
+    expect(() => validateReceiptImage(bytesToBase64(new Uint8Array([0x89, 0x50, 0x4e])), undefined, MAX_BYTES))
+      .toThrow('Unsupported image format');
+  });
+
+  it('rejects invalid base64, empty and oversized images', () => {
+    expect(() => validateReceiptImage('not base64!', undefined, MAX_BYTES)).toThrow('not valid base64');
+    expect(() => validateReceiptImage('', undefined, MAX_BYTES)).toThrow('empty');
+    expect(() => validateReceiptImage(JPEG, undefined, 4)).toThrow('too large');
+  });
+});
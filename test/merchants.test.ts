@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { buildAliasIndex, matchMerchant, normalizeMerchantKey } from '../src/merchants';
+import { MerchantDefinition } from '../src/types';
+
+const MERCHANTS: MerchantDefinition[] = [
+  { id: 'starbucks', name: 'Starbucks', aliases: ['STARBUCKS COFFEE', '星巴克'], category_id: 'food.coffee' },
+  { id: 'casino', name: 'Casino', aliases: ['Casino Supermarché'] },
+  { id: 'casino7', name: 'Casino7 Bar', aliases: ['Casino7'] }
+];
+
+describe('normalizeMerchantKey', () => {
+  it('drops store numbers and punctuation', () => {
+    expect(normalizeMerchantKey('STARBUCKS COFFEE #1234')).toBe('starbucks coffee');
+    expect(normalizeMerchantKey('Tesco Store 2041')).toBe('tesco');
+    expect(normalizeMerchantKey('Lawson No. 12')).toBe('lawson');
+  });
+
+  it('keeps digits that are part of a word', () => {
+    expect(normalizeMerchantKey('Casino7')).toBe('casino7');
+    expect(normalizeMerchantKey('Bestore9 Outlet')).toBe('bestore9 outlet');
+  });
+});
+
+describe('matchMerchant', () => {
+  const index = buildAliasIndex(MERCHANTS);
+
+  it('matches aliases exactly or by prefix', () => {
+    expect(matchMerchant(index, 'STARBUCKS COFFEE #1234')?.merchant.id).toBe('starbucks');
+    expect(matchMerchant(index, 'Starbucks Reserve Roastery')?.merchant.id).toBe('starbucks');
+    expect(matchMerchant(index, '星巴克咖啡')?.merchant.id).toBe('starbucks');
+  });
+
+  it('tells a merchant from a name with a number attached', () => {
+    expect(matchMerchant(index, 'Casino7')?.merchant.id).toBe('casino7');
+    expect(matchMerchant(index, 'Casino Supermarché 123')?.merchant.id).toBe('casino');
+  });
+
+  it('returns null without a match', () => {
+    expect(matchMerchant(index, 'Pret A Manger')).toBeNull();
+    expect(matchMerchant(new Map(), 'Starbucks')).toBeNull();
+  });
+
+  it('rejects aliases shared by two merchants', () => {
+    expect(() => buildAliasIndex([...MERCHANTS, { id: 'other', name: 'Other', aliases: ['starbucks'] }]))
+      .toThrow('used by both');
+  });
+});
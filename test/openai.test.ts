@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OpenAIService } from '../src/openai';
+import { Env } from '../src/types';
+import { createEnv, chatCompletion } from './helpers';
+
+const RESULT = { amount: '4.50', currency: 'USD', merchant: 'Blue Bottle', confidence: 0.9, extensions: { category_id: 'food_drink.coffee' } };
+
+// Text the rule-based fallback cannot read, so provider errors surface
+const UNREADABLE = 'coffee with a friend';
+
+/**
+ * Answer each provider (by host) from its list of responses, repeating the last one
+ */
+function stubProviders(responses: { [host: string]: Array<Response | Error> }) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const queue = responses[new URL(url).host]!;
+    const next = queue.length > 1 ? queue.shift()! : queue[0]!;
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next.clone();
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return (host: string) => fetchMock.mock.calls.filter(([url]) => new URL(url).host === host).length;
+}
+
+describe('OpenAIService failover', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createEnv({
+      AI_PROVIDER_CHAIN: 'primary,backup',
+      CIRCUIT_BREAKER_FAILURE_THRESHOLD: '3',
+      CIRCUIT_BREAKER_COOLDOWN_SECONDS: '60'
+    });
+    Object.assign(env, {
+      PRIMARY_API_KEY: 'key', PRIMARY_BASE_URL: 'https://primary.invalid/v1', PRIMARY_MODEL: 'primary-model',
+      BACKUP_API_KEY: 'key', BACKUP_BASE_URL: 'https://backup.invalid/v1', BACKUP_MODEL: 'backup-model'
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const failures: Array<[string, Response | Error]> = [
+    ['a 5xx', new Response('Bad gateway', { status: 502 })],
+    ['a 429', new Response('Slow down', { status: 429 })],
+    ['a network error', new TypeError('fetch failed')]
+  ];
+  for (const [name, failure] of failures) {
+    it(`fails over on ${name}`, async () => {
+      stubProviders({ 'primary.invalid': [failure], 'backup.invalid': [chatCompletion(RESULT)] });
+
+      const parsed = await new OpenAIService(env).parseExpenseText({ text: UNREADABLE });
+      expect(parsed.extensions).toMatchObject({ provider: 'backup', model: 'backup-model', source: 'openai_gpt' });
+    });
+  }
+
+  it('does not fail over on other 4xx answers', async () => {
+    const calls = stubProviders({ 'primary.invalid': [new Response('Bad key', { status: 401 })], 'backup.invalid': [chatCompletion(RESULT)] });
+
+    await expect(new OpenAIService(env).parseExpenseText({ text: UNREADABLE }))
+      .rejects.toMatchObject({ statusCode: 401, code: 'AI_API_ERROR' });
+    expect(calls('backup.invalid')).toBe(0);
+  });
+
+  it('opens the circuit after repeated failures, then half-opens after the cool-down', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-14T12:00:00Z'));
+    const calls = stubProviders({
+      'primary.invalid': [new Response('Unavailable', { status: 503 })],
+      'backup.invalid': [chatCompletion(RESULT)]
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await new OpenAIService(env).parseExpenseText({ text: UNREADABLE });
+    }
+    expect(calls('primary.invalid')).toBe(3);
+    expect(calls('backup.invalid')).toBe(4);
+
+    // Half-open: one more failure reopens the circuit straight away
+    vi.advanceTimersByTime(60_000);
+    await new OpenAIService(env).parseExpenseText({ text: UNREADABLE });
+    await new OpenAIService(env).parseExpenseText({ text: UNREADABLE });
+    expect(calls('primary.invalid')).toBe(4);
+
+    // A success after the next cool-down closes it
+    vi.advanceTimersByTime(60_000);
+    stubProviders({ 'primary.invalid': [chatCompletion(RESULT)], 'backup.invalid': [chatCompletion(RESULT)] });
+    const service = new OpenAIService(env);
+    await expect(service.parseExpenseText({ text: UNREADABLE })).resolves.toMatchObject({ extensions: { provider: 'primary' } });
+    await expect(service.healthCheck()).resolves.toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'primary', consecutive_failures: 0, circuit_open_until: null })
+    ]));
+  });
+
+  it('answers 503 when every circuit is open', async () => {
+    const calls = stubProviders({
+      'primary.invalid': [new Response('Unavailable', { status: 503 })],
+      'backup.invalid': [new Response('Unavailable', { status: 503 })]
+    });
+    for (let i = 0; i < 3; i++) {
+      await expect(new OpenAIService(env).parseExpenseText({ text: UNREADABLE })).rejects.toMatchObject({ statusCode: 503 });
+    }
+
+    await expect(new OpenAIService(env).parseExpenseText({ text: UNREADABLE }))
+      .rejects.toMatchObject({ statusCode: 503, code: 'AI_PROVIDERS_UNAVAILABLE' });
+    expect(calls('primary.invalid') + calls('backup.invalid')).toBe(6);
+
+    // Text the fallback can read still parses
+    const parsed = await new OpenAIService(env).parseExpenseText({ text: 'Coffee $4.50' });
+    expect(parsed.extensions).toMatchObject({ source: 'rule_based_fallback', fallback_reason: 'AI_PROVIDERS_UNAVAILABLE' });
+  });
+});
+
+describe('OpenAIService validation retry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('counts fields fixed by the retry as repaired', async () => {
+    stubProviders({ 'openai.invalid': [chatCompletion({ ...RESULT, confidence: 'high' }), chatCompletion(RESULT)] });
+
+    const parsed = await new OpenAIService(createEnv()).parseExpenseText({ text: UNREADABLE });
+    expect(parsed.extensions.repaired_fields).toEqual(['confidence']);
+  });
+
+  it('keeps the item index of fields fixed by the retry', async () => {
+    const list = (confidence: unknown) => ({ transactions: [RESULT, { ...RESULT, confidence }] });
+    stubProviders({ 'openai.invalid': [chatCompletion(list('high')), chatCompletion(list(0.8))] });
+
+    const [first, second] = await new OpenAIService(createEnv()).parseExpenseList({ text: UNREADABLE, mode: 'multi' });
+    expect(first!.extensions.repaired_fields).toBeUndefined();
+    expect(second!.extensions.repaired_fields).toEqual(['confidence']);
+  });
+});
+
+describe('OpenAIService multi mode', () => {
+  const TEXT = 'Costa Coffee £3.20\nCosta Coffee £3.20\nTesco £12.00';
+  const transaction = (fields: object) => ({ ...RESULT, ...fields });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps repeated excerpts to successive spans', async () => {
+    stubProviders({
+      'openai.invalid': [chatCompletion({
+        transactions: [
+          transaction({ source_text: 'Costa Coffee £3.20' }),
+          transaction({ source_text: ' Costa Coffee £3.20 ' }),
+          transaction({ source_text: 'Sainsbury £5.00' }),
+          transaction({ source_text: null })
+        ]
+      })]
+    });
+
+    const transactions = await new OpenAIService(createEnv()).parseExpenseList({ text: TEXT, mode: 'multi' });
+    expect(transactions.map(({ source_span: span }) => span)).toEqual([
+      { start: 0, end: 18 },
+      { start: 19, end: 37 },
+      null,
+      null
+    ]);
+  });
+
+  it('repairs each transaction and reports the repaired fields per transaction', async () => {
+    stubProviders({
+      'openai.invalid': [chatCompletion([
+        transaction({ source_text: 'Costa Coffee £3.20' }),
+        transaction({ amount: '1,200.00', source_text: 'Tesco £12.00', note: 'extra' })
+      ])]
+    });
+
+    const [first, second] = await new OpenAIService(createEnv()).parseExpenseList({ text: TEXT, mode: 'multi' });
+    expect(first!.extensions.repaired_fields).toBeUndefined();
+    expect(second!.extensions.repaired_fields).toEqual(expect.arrayContaining(['amount', 'note']));
+    expect(second!.amount).toBe('1200.00');
+  });
+
+  it('falls back to one transaction per line with an amount', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    stubProviders({ 'openai.invalid': [new Response('Bad key', { status: 401 })] });
+
+    const transactions = await new OpenAIService(createEnv()).parseExpenseList({ text: `${TEXT}\n\nBalance due soon`, mode: 'multi' });
+    expect(transactions).toHaveLength(3);
+    expect(transactions[2]).toMatchObject({
+      amount: '12.00',
+      currency: 'GBP',
+      source_span: { start: 38, end: 50 },
+      extensions: { source: 'rule_based_fallback', fallback_reason: 'AI_API_ERROR' }
+    });
+  });
+
+  it('reports the provider error when no line has an amount', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    stubProviders({ 'openai.invalid': [new Response('Bad key', { status: 401 })] });
+
+    await expect(new OpenAIService(createEnv()).parseExpenseList({ text: UNREADABLE, mode: 'multi' }))
+      .rejects.toMatchObject({ statusCode: 401, code: 'AI_API_ERROR' });
+  });
+});
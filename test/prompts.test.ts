@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PromptRegistryService, DEFAULT_PROMPT, deviceBucket } from '../src/prompts';
+import { Env } from '../src/types';
+import { createEnv } from './helpers';
+
+describe('deviceBucket', () => {
+  it('hashes the experiment name and device ID into a stable 0-99 bucket', async () => {
+    // First four bytes of SHA-256("tone:<device>") modulo 100
+    await expect(deviceBucket('device-a', 'tone')).resolves.toBe(41);
+    await expect(deviceBucket('device-b', 'tone')).resolves.toBe(18);
+    await expect(deviceBucket('device-c', 'tone')).resolves.toBe(47);
+    await expect(deviceBucket('device-b', 'tone')).resolves.toBe(18);
+  });
+
+  it('splits devices independently per experiment', async () => {
+    const buckets = async (salt: string) => Promise.all(
+      Array.from({ length: 20 }, (_, i) => deviceBucket(`device-${i}`, salt))
+    );
+    expect(await buckets('tone')).not.toEqual(await buckets('length'));
+  });
+});
+
+describe('PromptRegistryService', () => {
+  let env: Env;
+  let registry: PromptRegistryService;
+
+  beforeEach(async () => {
+    env = createEnv();
+    registry = new PromptRegistryService(env);
+    await registry.addVersion('v2', 'Prompt two');
+    await registry.addVersion('v3', 'Prompt three');
+  });
+
+  it('serves the bundled prompt until a registry is stored', async () => {
+    await expect(new PromptRegistryService(createEnv()).forDevice('device-a'))
+      .resolves.toEqual({ prompt: DEFAULT_PROMPT, experiment: null });
+  });
+
+  it('gives variants the first percentages of the bucket range', async () => {
+    await registry.setRollout('v1', { name: 'tone', variants: [{ version: 'v2', percent: 20 }, { version: 'v3', percent: 25 }] });
+    const assigned = async (deviceId: string) => (await registry.forDevice(deviceId)).prompt.id;
+
+    expect(await assigned('device-b')).toBe('v2'); // bucket 18
+    expect(await assigned('device-d')).toBe('v3'); // bucket 22
+    expect(await assigned('device-a')).toBe('v3'); // bucket 41
+    expect(await assigned('device-e')).toBe('v1'); // bucket 45
+    expect(await assigned('device-c')).toBe('v1'); // bucket 47
+    await expect(registry.forDevice('device-c')).resolves.toMatchObject({ experiment: 'tone' });
+  });
+
+  it('splits a device population by the configured percentages', async () => {
+    await registry.setRollout('v1', { name: 'tone', variants: [{ version: 'v2', percent: 10 }] });
+
+    const counts: { [id: string]: number } = {};
+    for (let i = 0; i < 1000; i++) {
+      const { prompt } = await registry.forDevice(`device-${i}`);
+      counts[prompt.id] = (counts[prompt.id] ?? 0) + 1;
+    }
+    expect(counts['v2']).toBeGreaterThan(70);
+    expect(counts['v2']).toBeLessThan(130);
+    expect(counts['v2']! + counts['v1']!).toBe(1000);
+  });
+
+  it('falls back to the bundled prompt when the active version is missing', async () => {
+    await env.CACHE.put('prompts:registry', JSON.stringify({
+      active: 'gone',
+      versions: [DEFAULT_PROMPT],
+      experiment: { name: 'tone', variants: [{ version: 'also-gone', percent: 100 }] }
+    }));
+
+    await expect(new PromptRegistryService(env).forDevice('device-a'))
+      .resolves.toEqual({ prompt: DEFAULT_PROMPT, experiment: 'tone' });
+  });
+
+  it('rejects unknown versions and splits over 100%', async () => {
+    await expect(registry.setRollout('v9', null)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(registry.setRollout('v1', { name: 'tone', variants: [{ version: 'v2', percent: 60 }, { version: 'v3', percent: 50 }] }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimitService, RateLimiter, rateLimitHeaders } from '../src/ratelimit';
+import { Env } from '../src/types';
+import { createEnv, createDurableObjectNamespace } from './helpers';
+
+describe('RateLimitService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-14T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  for (const backend of ['KV', 'Durable Object']) {
+    describe(`with the ${backend} backend`, () => {
+      let env: Env;
+      let limiter: RateLimitService;
+
+      beforeEach(() => {
+        env = createEnv({ RATE_LIMIT_PER_MINUTE: '3' });
+        if (backend === 'Durable Object') {
+          env.RATE_LIMITER = createDurableObjectNamespace(state => new RateLimiter(state, env));
+        }
+        limiter = new RateLimitService(env);
+      });
+
+      it('admits a burst up to the capacity, then limits', async () => {
+        const results = [];
+        for (let i = 0; i < 4; i++) {
+          results.push(await limiter.consume('parse', 'device-1'));
+        }
+        expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+        expect(results[2]).toMatchObject({ limit: 3, remaining: 0 });
+        expect(results[3]?.retry_after_seconds).toBe(20);
+      });
+
+      it('keeps separate buckets per key', async () => {
+        for (let i = 0; i < 3; i++) {
+          await limiter.consume('parse', 'device-1');
+        }
+        await expect(limiter.consume('parse', 'device-2')).resolves.toMatchObject({ allowed: true, remaining: 2 });
+      });
+
+      it('refills over the window', async () => {
+        for (let i = 0; i < 3; i++) {
+          await limiter.consume('parse', 'device-1');
+        }
+        vi.advanceTimersByTime(20_000);
+        await expect(limiter.consume('parse', 'device-1')).resolves.toMatchObject({ allowed: true, remaining: 0 });
+      });
+
+      it('charges batches per item', async () => {
+        env.BATCH_ITEMS_PER_HOUR = '10';
+        await expect(limiter.consume('batch', 'device-1', 8)).resolves.toMatchObject({ allowed: true, remaining: 2 });
+        const limited = await limiter.consume('batch', 'device-1', 5);
+        expect(limited).toMatchObject({ allowed: false, remaining: 2 });
+        expect(limited.retry_after_seconds).toBe(1080);
+      });
+    });
+  }
+
+  it('resets the buckets of a device', async () => {
+    const env = createEnv({ RATE_LIMIT_PER_MINUTE: '1' });
+    env.RATE_LIMITER = createDurableObjectNamespace(state => new RateLimiter(state, env));
+    const limiter = new RateLimitService(env);
+
+    await limiter.consume('parse', 'device-1');
+    await expect(limiter.resetDevice('device-1')).resolves.toEqual({ reset: ['ratelimit:parse:device-1'], failed: [] });
+    await expect(limiter.consume('parse', 'device-1')).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('reports the buckets it could not reset', async () => {
+    const env = createEnv();
+    const namespace = createDurableObjectNamespace(state => new RateLimiter(state, env));
+    env.RATE_LIMITER = {
+      idFromName: (name: string) => name,
+      get: (name: string) => name.includes(':batch:')
+        ? { fetch: async () => new Response('Internal error', { status: 500 }) }
+        : name.includes(':device:')
+          ? { fetch: async () => { throw new Error('object unavailable'); } }
+          : namespace.get(namespace.idFromName(name))
+    } as unknown as DurableObjectNamespace;
+    const limiter = new RateLimitService(env);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await limiter.consume('parse', 'device-1');
+    await expect(limiter.resetDevice('device-1')).resolves.toEqual({
+      reset: ['ratelimit:parse:device-1'],
+      failed: ['ratelimit:batch:device-1', 'ratelimit:device:device-1']
+    });
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('adds Retry-After only when limited', () => {
+    const result = { allowed: true, limit: 10, remaining: 4, reset_seconds: 36, retry_after_seconds: 0, window_seconds: 60 };
+    expect(rateLimitHeaders(result)).toEqual({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '4',
+      'RateLimit-Reset': '36',
+      'RateLimit-Policy': '10;w=60'
+    });
+    expect(rateLimitHeaders({ ...result, allowed: false, retry_after_seconds: 6 })['Retry-After']).toBe('6');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { validateExpenseResult } from '../src/schema';
+import { normalizeMoney } from '../src/currency';
+
+const result = (fields: { [field: string]: unknown }) => ({ amount: '12.50', currency: 'USD', confidence: 0.9, ...fields });
+
+describe('validateExpenseResult', () => {
+  it('accepts a valid result without repairs', () => {
+    expect(validateExpenseResult(result({}))).toMatchObject({ success: true, repairedFields: [] });
+  });
+
+  it('repairs formatted amounts, confidences and lower-case codes', () => {
+    const validated = validateExpenseResult(result({ amount: '£1,234.50', currency: 'gbp', confidence: 92 }));
+    expect(validated).toMatchObject({ success: true, data: { amount: '1234.50', currency: 'GBP', confidence: 0.92 } });
+    expect(validated.repairedFields).toEqual(expect.arrayContaining(['amount', 'currency', 'confidence']));
+  });
+
+  it('maps unambiguous symbols to their code', () => {
+    expect(validateExpenseResult(result({ currency: '€' }))).toMatchObject({ success: true, data: { currency: 'EUR' } });
+  });
+
+  it('leaves ambiguous symbols for the request context to resolve', () => {
+    for (const symbol of ['$', '¥', '￥', 'kr']) {
+      expect(validateExpenseResult(result({ currency: symbol }))).toMatchObject({ success: true, data: { currency: symbol } });
+    }
+    expect(normalizeMoney('12.50', '$', { locale: 'en-CA' }).currency).toBe('CAD');
+    expect(normalizeMoney('1200', '¥', { location: 'Tokyo' }).currency).toBe('JPY');
+    expect(normalizeMoney('150', 'kr', { locale: 'sv-SE' }).currency).toBe('SEK');
+  });
+
+  it('rejects unknown currency text', () => {
+    expect(validateExpenseResult(result({ currency: 'dollars' }))).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SecurityManager, canonicalRequest } from '../src/security';
+import { DeviceInfo, Env } from '../src/types';
+import { createEnv, registerDevice, signedRequest, request, hmac, sha256Hex, TestDevice } from './helpers';
+
+const DEVICE_ID = 'device-1';
+
+async function register(security: SecurityManager): Promise<{ token: string; deviceInfo: DeviceInfo }> {
+  const issued = await security.generateDeviceToken(DEVICE_ID);
+  const deviceInfo: DeviceInfo = {
+    device_id: DEVICE_ID,
+    key_seed: await security.generateKeySeed(DEVICE_ID),
+    key_expires_at: new Date(Date.now() + 3600_000).toISOString(),
+    token_id: issued.payload.jti,
+    token_expires_at: issued.payload.exp,
+    registered_at: new Date().toISOString(),
+    last_seen: new Date().toISOString(),
+    request_count: 0,
+    device_info: { model: 'iPhone', os_version: '17.0', app_version: '1.0', platform: 'ios' }
+  };
+  await security.storeDeviceInfo(deviceInfo);
+  return { token: issued.token, deviceInfo };
+}
+
+describe('device tokens', () => {
+  let env: Env;
+  let security: SecurityManager;
+
+  beforeEach(() => {
+    env = createEnv();
+    security = new SecurityManager(env);
+  });
+
+  it('accepts the current token', async () => {
+    const { token } = await register(security);
+    await expect(security.verifyDeviceToken(token, DEVICE_ID)).resolves.toMatchObject({ sub: DEVICE_ID });
+  });
+
+  it('rejects a token issued to another device', async () => {
+    const { token } = await register(security);
+    await expect(security.verifyDeviceToken(token, 'device-2')).rejects.toThrow('does not match');
+  });
+
+  it('rejects a tampered token', async () => {
+    const { token } = await register(security);
+    const [header, , signature] = token.split('.');
+    const payload = btoa(JSON.stringify({ sub: DEVICE_ID, iat: 0, exp: 4102444800, jti: 'forged' })).replace(/=+$/, '');
+    await expect(security.verifyDeviceToken(`${header}.${payload}.${signature}`, DEVICE_ID)).rejects.toThrow('signature');
+  });
+
+  it('rejects tokens of a deleted registration after re-registering', async () => {
+    const { token: oldToken } = await register(security);
+    await security.purgeDeviceData(DEVICE_ID);
+    await expect(security.verifyDeviceToken(oldToken, DEVICE_ID)).rejects.toThrow('not registered');
+
+    const { token: newToken } = await register(security);
+    await expect(security.verifyDeviceToken(oldToken, DEVICE_ID)).rejects.toThrow('newer registration');
+    await expect(security.verifyDeviceToken(newToken, DEVICE_ID)).resolves.toBeDefined();
+  });
+
+  it('keeps the previous token valid during the rotation grace window', async () => {
+    const { token: oldToken, deviceInfo } = await register(security);
+    const rotated = await security.rotateDeviceCredentials(deviceInfo);
+
+    await expect(security.verifyDeviceToken(oldToken, DEVICE_ID)).resolves.toBeDefined();
+    await expect(security.verifyDeviceToken(rotated.deviceToken, DEVICE_ID)).resolves.toBeDefined();
+  });
+
+  it('rejects the previous token once the grace window is over', async () => {
+    env.KEY_ROTATION_GRACE_MINUTES = '0';
+    const { token: oldToken, deviceInfo } = await register(security);
+    await security.rotateDeviceCredentials(deviceInfo);
+
+    await expect(security.verifyDeviceToken(oldToken, DEVICE_ID)).rejects.toThrow();
+  });
+
+  it('is required on every device-scoped route', async () => {
+    const device = await registerDevice(env, DEVICE_ID);
+    const routes: Array<[string, string, unknown?]> = [
+      ['POST', '/api/v1/parse/expense', { text: 'Coffee $4.50' }],
+      ['POST', `/api/v1/device/${DEVICE_ID}/rotate`, {}],
+      ['GET', `/api/v1/device/${DEVICE_ID}/categories`],
+      ['PUT', `/api/v1/device/${DEVICE_ID}/categories`, { categories: [] }],
+      ['GET', `/api/v1/device/${DEVICE_ID}`],
+      ['DELETE', `/api/v1/device/${DEVICE_ID}`]
+    ];
+
+    for (const [method, path, body] of routes) {
+      const response = await signedRequest(env, device, method, path, body, { token: null });
+      expect(response.status, `${method} ${path}`).toBe(401);
+      expect(await response.json()).toMatchObject({ error: { code: 'DEVICE_TOKEN_MISSING' } });
+    }
+
+    const revoked = await registerDevice(env, 'device-2');
+    const response = await signedRequest(env, revoked, 'GET', '/api/v1/device/device-2', undefined, { token: device.token });
+    expect(response.status).toBe(401);
+  });
+
+  it('is not needed with an admin credential', async () => {
+    await registerDevice(env, DEVICE_ID);
+    const response = await request(env, 'GET', `/api/v1/device/${DEVICE_ID}`, { headers: { 'x-admin-key': 'test-admin-key' } });
+    expect(response.status).toBe(200);
+  });
+});
+
+describe('key rotation', () => {
+  let env: Env;
+  let device: TestDevice;
+
+  beforeEach(async () => {
+    env = createEnv();
+    device = await registerDevice(env, DEVICE_ID);
+  });
+
+  async function rotate(): Promise<TestDevice> {
+    const response = await signedRequest(env, device, 'POST', `/api/v1/device/${DEVICE_ID}/rotate`, {});
+    expect(response.status).toBe(200);
+    const { data } = await response.json() as { data: { key_seed: string; device_token: string } };
+    expect(data.key_seed).not.toBe(device.keySeed);
+    return { deviceId: DEVICE_ID, keySeed: data.key_seed, token: data.device_token };
+  }
+
+  it('issues a new key and token, keeping the previous ones during the grace window', async () => {
+    const rotated = await rotate();
+
+    expect((await signedRequest(env, rotated, 'GET', `/api/v1/device/${DEVICE_ID}`)).status).toBe(200);
+    expect((await signedRequest(env, device, 'GET', `/api/v1/device/${DEVICE_ID}`)).status).toBe(200);
+  });
+
+  it('accepts only the current key for a further rotation', async () => {
+    const rotated = await rotate();
+
+    const stale = await signedRequest(env, device, 'POST', `/api/v1/device/${DEVICE_ID}/rotate`, {}, { token: rotated.token });
+    expect(stale.status).toBe(401);
+    expect(await stale.json()).toMatchObject({ error: { code: 'SIGNATURE_INVALID' } });
+    expect((await signedRequest(env, rotated, 'POST', `/api/v1/device/${DEVICE_ID}/rotate`, {})).status).toBe(200);
+  });
+
+  it('rejects the previous key once the grace window is over', async () => {
+    env.KEY_ROTATION_GRACE_MINUTES = '0';
+    const rotated = await rotate();
+
+    const response = await signedRequest(env, device, 'GET', `/api/v1/device/${DEVICE_ID}`, undefined, { token: rotated.token });
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('device deletion', () => {
+  it('purges every per-device key, including the legacy rate limit history', async () => {
+    const env = createEnv();
+    const device = await registerDevice(env, DEVICE_ID);
+    await env.RATE_LIMIT.put(`rate_limit:${DEVICE_ID}`, '[]');
+    await env.CACHE.put(`categories:${DEVICE_ID}`, '[]');
+
+    const response = await signedRequest(env, device, 'DELETE', `/api/v1/device/${DEVICE_ID}`);
+    expect(response.status).toBe(200);
+    const { data } = await response.json() as { data: { purged: Array<{ namespace: string; key: string }>; failed: unknown[] } };
+    expect(data.purged).toEqual(expect.arrayContaining([
+      { namespace: 'CACHE', key: `device:${DEVICE_ID}` },
+      { namespace: 'CACHE', key: `categories:${DEVICE_ID}` },
+      { namespace: 'RATE_LIMIT', key: `rate_limit:${DEVICE_ID}` }
+    ]));
+    expect(data.failed).toEqual([]);
+    expect(await env.RATE_LIMIT.get(`rate_limit:${DEVICE_ID}`)).toBeNull();
+    expect(await new SecurityManager(env).getDeviceInfo(DEVICE_ID)).toBeNull();
+  });
+});
+
+describe('signed requests (v1) and nonces', () => {
+  let env: Env;
+  let device: TestDevice;
+  const path = `/api/v1/device/${DEVICE_ID}/categories`;
+  const errorCode = async (response: Response) => ((await response.json()) as { error: { code: string } }).error.code;
+
+  beforeEach(async () => {
+    env = createEnv();
+    device = await registerDevice(env, DEVICE_ID);
+  });
+
+  it('accepts a valid signature with a fresh nonce', async () => {
+    const response = await signedRequest(env, device, 'GET', path);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Deprecation')).toBeNull();
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const nonce = 'replayed-nonce-0001';
+    expect((await signedRequest(env, device, 'GET', path, undefined, { nonce })).status).toBe(200);
+
+    const replay = await signedRequest(env, device, 'GET', path, undefined, { nonce });
+    expect(replay.status).toBe(401);
+    expect(await errorCode(replay)).toBe('NONCE_REUSED');
+  });
+
+  it('rejects a malformed nonce', async () => {
+    const response = await signedRequest(env, device, 'GET', path, undefined, { nonce: 'short' });
+    expect(response.status).toBe(401);
+    expect(await errorCode(response)).toBe('NONCE_MISSING');
+  });
+
+  it('accepts legacy requests without a nonce until nonces are required', async () => {
+    const legacy = await signedRequest(env, device, 'GET', path, undefined, { nonce: null });
+    expect(legacy.status).toBe(200);
+    expect(legacy.headers.get('Deprecation')).toBe('true');
+
+    env.NONCE_REQUIRED = 'true';
+    const rejected = await signedRequest(env, device, 'GET', path, undefined, { nonce: null });
+    expect(rejected.status).toBe(401);
+    expect(await errorCode(rejected)).toBe('NONCE_MISSING');
+  });
+
+  it('rejects signatures by another key or with an expired timestamp', async () => {
+    const otherKey = await signedRequest(env, device, 'GET', path, undefined, { keySeed: 'not-the-device-key' });
+    expect(await errorCode(otherKey)).toBe('SIGNATURE_INVALID');
+
+    const stale = await signedRequest(env, device, 'GET', path, undefined, { timestamp: Date.now() - 6 * 60_000 });
+    expect(await errorCode(stale)).toBe('SIGNATURE_INVALID');
+  });
+
+  it('rejects requests for another device', async () => {
+    const response = await signedRequest(env, device, 'GET', '/api/v1/device/device-2/categories');
+    expect(response.status).toBe(403);
+    expect(await errorCode(response)).toBe('DEVICE_MISMATCH');
+  });
+});
+
+describe('signature v2', () => {
+  let env: Env;
+  let device: TestDevice;
+  const path = `/api/v1/device/${DEVICE_ID}/categories`;
+  const errorCode = async (response: Response) => ((await response.json()) as { error: { code: string } }).error.code;
+
+  /**
+   * Sign one request, then send another (method, path or query changed)
+   */
+  async function sendResigned(signed: { method: string; path: string }, sent: { method: string; path: string }): Promise<Response> {
+    const headers: { [name: string]: string } = {
+      'content-type': 'application/json',
+      'x-device-id': DEVICE_ID,
+      'x-device-token': device.token,
+      'x-nonce': crypto.randomUUID().replace(/-/g, ''),
+      'x-timestamp': String(Date.now()),
+      'x-signature-version': '2'
+    };
+    const message = canonicalRequest({ method: signed.method, url: `https://api.test${signed.path}`, headers }, await sha256Hex(''));
+    headers['x-signature'] = await hmac(device.keySeed, message);
+    return request(env, sent.method, sent.path, { headers });
+  }
+
+  beforeEach(async () => {
+    env = createEnv();
+    device = await registerDevice(env, DEVICE_ID);
+  });
+
+  it('accepts a v2 signature', async () => {
+    const response = await signedRequest(env, device, 'PUT', path, { categories: [{ id: 'custom.pets', names: { en: 'Pets' } }] }, { version: 2 });
+    expect(response.status).toBe(200);
+  });
+
+  it('covers the method, path and query', async () => {
+    expect((await sendResigned({ method: 'GET', path }, { method: 'GET', path })).status).toBe(200);
+
+    const otherMethod = await sendResigned({ method: 'GET', path }, { method: 'DELETE', path: `/api/v1/device/${DEVICE_ID}` });
+    expect(await errorCode(otherMethod)).toBe('SIGNATURE_INVALID');
+
+    const otherQuery = await sendResigned({ method: 'GET', path: `${path}?locale=en` }, { method: 'GET', path: `${path}?locale=zh` });
+    expect(await errorCode(otherQuery)).toBe('SIGNATURE_INVALID');
+  });
+
+  it('covers the signed headers', async () => {
+    const response = await signedRequest(env, device, 'GET', path, undefined, { version: 2 });
+    expect(response.status).toBe(200);
+
+    const headers = { 'content-type': 'application/json', 'x-device-id': DEVICE_ID, 'x-nonce': 'a'.repeat(16), 'x-timestamp': '1700000000000' };
+    const base = canonicalRequest({ method: 'GET', url: 'https://api.test/x', headers }, 'hash');
+    expect(canonicalRequest({ method: 'GET', url: 'https://api.test/x', headers: { ...headers, 'content-type': 'text/plain' } }, 'hash')).not.toBe(base);
+  });
+
+  it('canonicalizes the query order', () => {
+    const headers = { 'x-device-id': DEVICE_ID };
+    expect(canonicalRequest({ method: 'get', url: 'https://api.test/x?b=2&a=1&a=0', headers }, 'hash'))
+      .toBe(canonicalRequest({ method: 'GET', url: 'https://api.test/x?a=0&a=1&b=2', headers }, 'hash'));
+    expect(canonicalRequest({ method: 'GET', url: 'https://api.test/x?a=1', headers }, 'hash').split('\n').slice(0, 4))
+      .toEqual(['v2', 'GET', '/x', 'a=1']);
+  });
+
+  it('rejects v1 once it is disabled, and unknown versions', async () => {
+    env.SIGNATURE_V1_ENABLED = 'false';
+    const v1 = await signedRequest(env, device, 'GET', path);
+    expect(v1.status).toBe(401);
+    expect(await errorCode(v1)).toBe('SIGNATURE_VERSION_UNSUPPORTED');
+    expect((await signedRequest(env, device, 'GET', path, undefined, { version: 2 })).status).toBe(200);
+
+    const v3 = await signedRequest(env, device, 'GET', path, undefined, { headers: { 'x-signature-version': '3' } });
+    expect(await errorCode(v3)).toBe('SIGNATURE_VERSION_UNSUPPORTED');
+  });
+});
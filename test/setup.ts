@@ -0,0 +1,6 @@
+import { timingSafeEqual } from 'node:crypto';
+
+// Workers-only extension of SubtleCrypto used by SecurityManager
+const subtle = crypto.subtle as SubtleCrypto & { timingSafeEqual?: (a: ArrayBufferView, b: ArrayBufferView) => boolean };
+subtle.timingSafeEqual ??= (a, b) =>
+  timingSafeEqual(new Uint8Array(a.buffer, a.byteOffset, a.byteLength), new Uint8Array(b.buffer, b.byteOffset, b.byteLength));
@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { parseStatement, normalizeStatement, parseStatementDate, detectStatementFormat } from '../src/statement';
+import { buildAliasIndex } from '../src/merchants';
+import { DEFAULT_TAXONOMY } from '../src/categories';
+import { createEnv, registerDevice, signedRequest, chatCompletion } from './helpers';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/statements/${name}`, import.meta.url), 'utf8');
+
+describe('parseStatement', () => {
+  it('reads a Monzo CSV export with its time column', () => {
+    const parsed = parseStatement(fixture('monzo.csv'));
+    expect(parsed).toMatchObject({ format: 'csv', preset: 'monzo', skipped: 1 });
+    expect(parsed.entries).toHaveLength(3);
+    expect(parsed.entries[0]).toEqual({
+      date: '2024-03-14T08:12:45',
+      amount: '4.25',
+      direction: 'debit',
+      currency: 'GBP',
+      payee: 'Pret A Manger',
+      description: 'PRET A MANGER LONDON GBR',
+      reference: 'tx_0001'
+    });
+    expect(parsed.entries[1]?.payee).toBe('Tesco, Express');
+    expect(parsed.entries[2]).toMatchObject({ amount: '1500.00', direction: 'credit' });
+  });
+
+  it('reads separate withdrawal and deposit columns, ignoring zero debits', () => {
+    const parsed = parseStatement(fixture('hsbc_hk.csv'));
+    expect(parsed.preset).toBe('hsbc_hk');
+    expect(parsed.entries.map(entry => [entry.amount, entry.direction, entry.currency])).toEqual([
+      ['356.40', 'debit', 'HKD'],
+      ['42000.00', 'credit', 'HKD'],
+      ['500.00', 'debit', 'HKD']
+    ]);
+  });
+
+  it('reads OFX with closing tags omitted and keeps the stated offset', () => {
+    const parsed = parseStatement(fixture('statement.ofx'));
+    expect(parsed).toMatchObject({ format: 'ofx', skipped: 1 });
+    expect(parsed.entries).toEqual([
+      {
+        date: '2024-03-05T14:30:00-05:00',
+        amount: '23.45',
+        direction: 'debit',
+        currency: 'USD',
+        payee: 'WHOLE FOODS MKT',
+        description: 'WHOLE FOODS MKT #10234 NEW YORK',
+        reference: '2024030501'
+      },
+      expect.objectContaining({ date: '2024-03-06T00:00:00', amount: '100.00', direction: 'credit' })
+    ]);
+  });
+
+  it('reads QIF with Quicken dates and takes the currency from the request', () => {
+    const parsed = parseStatement(fixture('statement.qif'), { currency: 'USD' });
+    expect(parsed).toMatchObject({ format: 'qif', skipped: 1 });
+    expect(parsed.entries).toEqual([
+      { date: '2024-03-14T00:00:00', amount: '42.10', direction: 'debit', currency: 'USD', payee: 'Shell', description: 'Shell Fuel', reference: '1001' },
+      expect.objectContaining({ amount: '1250.00', direction: 'credit', payee: 'Payroll' })
+    ]);
+  });
+
+  it('reads CAMT.053 entries in several currencies', () => {
+    const parsed = parseStatement(fixture('camt053.xml'));
+    expect(parsed.format).toBe('camt053');
+    expect(parsed.entries.map(entry => [entry.amount, entry.currency, entry.direction, entry.date])).toEqual([
+      ['45.90', 'EUR', 'debit', '2024-03-04T00:00:00'],
+      ['120.00', 'USD', 'debit', '2024-03-05T10:15:00+01:00'],
+      ['2500.00', 'EUR', 'credit', '2024-03-28T00:00:00'] // no Ccy on the amount: the account currency
+    ]);
+    expect(parsed.entries.map(entry => entry.payee)).toEqual(['REWE Markt GmbH', 'GitHub & Co', 'Arbeitgeber AG']);
+    expect(parsed.entries[0]?.description).toBe('REWE SAGT DANKE 1234');
+  });
+
+  it('rejects files without transactions', () => {
+    expect(() => parseStatement('Date,Amount\n')).toThrow('No transactions found');
+  });
+});
+
+describe('detectStatementFormat', () => {
+  it('tells the formats apart by their content', () => {
+    expect(detectStatementFormat(fixture('camt053.xml'))).toBe('camt053');
+    expect(detectStatementFormat(fixture('statement.ofx'))).toBe('ofx');
+    expect(detectStatementFormat(fixture('statement.qif'))).toBe('qif');
+    expect(detectStatementFormat(fixture('monzo.csv'))).toBe('csv');
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('reads day-first and month-first dates', () => {
+    expect(parseStatementDate('03/04/2024', 'DMY')).toBe('2024-04-03T00:00:00');
+    expect(parseStatementDate('03/04/2024', 'MDY')).toBe('2024-03-04T00:00:00');
+    expect(parseStatementDate('20.09.2023 7:05', 'DMY')).toBe('2023-09-20T07:05:00');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseStatementDate('30/02/2024', 'DMY')).toBeNull();
+  });
+});
+
+describe('normalizeStatement', () => {
+  it('maps known merchants and their default category', () => {
+    const merchants = buildAliasIndex([{ id: 'tesco', name: 'Tesco', aliases: ['Tesco Express'], category_id: 'food_drink.groceries' }]);
+    const categories = DEFAULT_TAXONOMY;
+    const [pret, tesco] = normalizeStatement(parseStatement(fixture('monzo.csv')), { timezone: 'Europe/London' }, merchants, categories);
+
+    expect(pret).toMatchObject({ merchant: 'Pret A Manger', merchant_id: null, timestamp: '2024-03-14T08:12:45Z', confidence: 1 });
+    expect(tesco).toMatchObject({ merchant: 'Tesco', merchant_raw: 'Tesco, Express', merchant_id: 'tesco', amount_minor: 1280 });
+    expect(tesco?.extensions).toMatchObject({ category_id: 'food_drink.groceries', direction: 'debit', source: 'statement_import', statement_format: 'csv' });
+  });
+});
+
+describe('POST /api/v1/import/statement', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // 60 descriptions the (empty) merchant dictionary does not know: two enrichment chunks
+  const csv = ['Date,Description,Amount', ...Array.from({ length: 60 }, (_, i) => `01/03/2024,VENDOR ${i},-1.00`)].join('\n');
+
+  function stubEnrichment(tokensPerCall: number) {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const prompt = JSON.parse(init.body as string).messages[1].content as string;
+      const lines = prompt.split('DESCRIPTIONS:\n')[1]!.split('\n');
+      const items = lines.map((_, index) => ({ index, merchant: `Vendor ${index}`, category_id: 'shopping' }));
+      return chatCompletion({ items }, tokensPerCall);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('enriches every chunk within the quota', async () => {
+    const env = createEnv({ TOKEN_QUOTA_DAILY: '1000' });
+    const device = await registerDevice(env);
+    const fetchMock = stubEnrichment(100);
+
+    const response = await signedRequest(env, device, 'POST', '/api/v1/import/statement?enrich=true&currency=GBP', csv);
+    const { data } = await response.json() as { data: { count: number; enriched: number; enrichment_error?: string } };
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const sent = fetchMock.mock.calls.map(([, init]) =>
+      (JSON.parse(init.body as string).messages[1].content as string).split('DESCRIPTIONS:\n')[1]!.split('\n').length);
+    expect(sent).toEqual([50, 10]);
+    expect(data).toMatchObject({ count: 60, enriched: 60 });
+    expect(data.enrichment_error).toBeUndefined();
+  });
+
+  it('stops enriching once a chunk uses up the quota, keeping earlier suggestions', async () => {
+    const env = createEnv({ TOKEN_QUOTA_DAILY: '100' });
+    const device = await registerDevice(env);
+    const fetchMock = stubEnrichment(100);
+
+    const response = await signedRequest(env, device, 'POST', '/api/v1/import/statement?enrich=true&currency=GBP', csv);
+    const { data } = await response.json() as { data: { count: number; enriched: number; enrichment_error?: string } };
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(data).toMatchObject({ count: 60, enriched: 50, enrichment_error: 'TOKEN_QUOTA_EXCEEDED' });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { StatsRecorder, StatsCounter, formatDate } from '../src/stats';
+import { Env } from '../src/types';
+import { createEnv, createDurableObjectNamespace } from './helpers';
+
+function createStatsEnv(): Env & { STATS_COUNTER: DurableObjectNamespace & { requests: number } } {
+  const env = createEnv();
+  const counter = createDurableObjectNamespace(state => new StatsCounter(state, env));
+  env.STATS_COUNTER = counter;
+  return { ...env, STATS_COUNTER: counter };
+}
+
+describe('StatsRecorder', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps every count when requests flush concurrently', async () => {
+    const env = createStatsEnv();
+    const recorders = Array.from({ length: 20 }, () => new StatsRecorder(env));
+    recorders.forEach((recorder, index) => {
+      recorder.recordParseRequest();
+      recorder.recordParseSuccess(index % 2 === 0 ? 'openai_gpt' : 'rule_based_fallback');
+      recorder.recordProviderCall('openai', 100 + index, true, { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+    });
+    await Promise.all(recorders.map(recorder => recorder.flush()));
+
+    const today = formatDate(new Date());
+    const { totals } = await new StatsRecorder(env).query(today, today, 'day');
+    expect(totals.parse_requests).toBe(20);
+    expect(totals.parse_successes).toBe(20);
+    expect(totals.parse_fallbacks).toBe(10);
+    expect(totals.tokens.total_tokens).toBe(300);
+    expect(totals.providers.openai).toMatchObject({ calls: 20, max_latency_ms: 119, average_latency_ms: 110 });
+  });
+
+  it('reads a year of counters with one request', async () => {
+    vi.useFakeTimers();
+    const env = createStatsEnv();
+    for (const day of ['2024-01-01', '2024-01-03', '2024-12-31']) {
+      vi.setSystemTime(new Date(`${day}T12:00:00Z`));
+      const recorder = new StatsRecorder(env);
+      recorder.recordRegistration();
+      recorder.recordFeedback({ amount: true, merchant: false }, 'v1');
+      await recorder.flush();
+    }
+
+    const requests = env.STATS_COUNTER.requests;
+    const { totals, buckets } = await new StatsRecorder(env).query('2024-01-01', '2024-12-31', 'month');
+    expect(env.STATS_COUNTER.requests - requests).toBe(1);
+    expect(totals.registrations).toBe(3);
+    expect(totals.field_accuracy.merchant).toMatchObject({ reviewed: 3, corrected: 3, accuracy: 0 });
+    expect(totals.prompt_variants.v1).toMatchObject({ fields_reviewed: 6, correction_rate: 0.5 });
+    expect(buckets).toHaveLength(12);
+    expect(buckets[0]).toMatchObject({ period: '2024-01', registrations: 2 });
+
+    const { buckets: days } = await new StatsRecorder(env).query('2024-01-02', '2024-01-03', 'day');
+    expect(days.map(day => [day.period, day.registrations])).toEqual([['2024-01-02', 0], ['2024-01-03', 1]]);
+  });
+
+  it('drops days past the retention period', async () => {
+    vi.useFakeTimers();
+    const env = createStatsEnv();
+    for (const day of ['2023-01-01', '2024-03-01']) {
+      vi.setSystemTime(new Date(`${day}T12:00:00Z`));
+      const recorder = new StatsRecorder(env);
+      recorder.recordParseRequest();
+      await recorder.flush();
+    }
+
+    const { totals } = await new StatsRecorder(env).query('2023-01-01', '2023-01-01', 'day');
+    expect(totals.parse_requests).toBe(0);
+  });
+
+  it('falls back to one KV record per day without the Durable Object', async () => {
+    const env = createEnv();
+    const today = formatDate(new Date());
+    for (let i = 0; i < 2; i++) {
+      const recorder = new StatsRecorder(env);
+      recorder.recordParseFailure('AI_API_ERROR');
+      await recorder.flush();
+    }
+
+    expect(JSON.parse((await env.CACHE.get(`stats:daily:${today}`))!).parse_failures).toEqual({ AI_API_ERROR: 2 });
+    const { totals } = await new StatsRecorder(env).query(today, today, 'day');
+    expect(totals.parse_failures).toEqual({ AI_API_ERROR: 2 });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { isValidDate, resolveTimestamp } from '../src/timezone';
+
+describe('resolveTimestamp', () => {
+  it('keeps an explicit offset', () => {
+    expect(resolveTimestamp('2023-09-20T01:47:00+08:00')).toEqual({
+      timestamp: '2023-09-19T17:47:00Z',
+      timestamp_local: '2023-09-20T01:47:00+08:00',
+      timezone_source: 'explicit',
+      timezone: '+08:00'
+    });
+  });
+
+  it('applies the context zone, including its DST offset', () => {
+    expect(resolveTimestamp('2024-07-01T12:00', { timezone: 'Europe/London' })).toMatchObject({
+      timestamp: '2024-07-01T11:00:00Z',
+      timezone_source: 'context_timezone'
+    });
+    expect(resolveTimestamp('2024-01-01T12:00', { timezone: 'Europe/London' })?.timestamp).toBe('2024-01-01T12:00:00Z');
+  });
+
+  it('prefers the context offset over an inferred zone', () => {
+    expect(resolveTimestamp('2024-01-01T12:00:00', { timezone_offset: -300, inferred_timezone: 'Asia/Tokyo' })).toMatchObject({
+      timestamp: '2024-01-01T17:00:00Z',
+      timezone_source: 'context_offset'
+    });
+  });
+
+  it('assumes UTC without hints', () => {
+    expect(resolveTimestamp('2024-01-01T12:00:00')?.timezone_source).toBe('assumed_utc');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(resolveTimestamp('2023-02-30T10:00:00')).toBeNull();
+    expect(resolveTimestamp('2023-04-31T10:00:00+02:00')).toBeNull();
+    expect(resolveTimestamp('2023-01-01T24:00:00')).toBeNull();
+    expect(resolveTimestamp('2024-02-29T10:00:00')).not.toBeNull();
+  });
+
+  it('rejects text that is not a date-time', () => {
+    expect(resolveTimestamp('yesterday')).toBeNull();
+    expect(resolveTimestamp('2023-09-20')).toBeNull();
+  });
+});
+
+describe('isValidDate', () => {
+  it('checks the calendar date', () => {
+    expect(isValidDate('2023-02-28T00:00:00')).toBe(true);
+    expect(isValidDate('2023-02-29T00:00:00')).toBe(false);
+    expect(isValidDate('2023-13-01T00:00:00')).toBe(false);
+  });
+});